@@ -0,0 +1,194 @@
+import mammoth from 'mammoth';
+
+// Text extraction for the non-PDF formats accepted by /api/pdf-extract:
+// DOCX, HTML and plain text. Output is page-split plain text in the same shape
+// the PDF path produces, so chunking treats every format alike:
+//   - headings become markdown headings ("## Crew Briefing")
+//   - list items become "- " bullets
+//   - tables become markdown tables
+// These formats have no fixed pages, so text is split at explicit page breaks
+// (form feeds, CSS page breaks) and otherwise about every PAGE_CHARS characters.
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'text';
+
+export interface TextDocument {
+  title: string | null;
+  pages: string[];
+}
+
+// Roughly one printed page of text
+const PAGE_CHARS = 3000;
+
+const PAGE_BREAK = '\f';
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'text/plain': 'text',
+};
+
+export function detectDocumentFormat(fileName: string | null, mimeType: string | null): DocumentFormat | null {
+  const extension = fileName?.match(/\.[^.]+$/)?.[0].toLowerCase();
+  return (extension && FORMATS_BY_EXTENSION[extension]) || (mimeType && FORMATS_BY_MIME_TYPE[mimeType]) || null;
+}
+
+export async function extractTextDocument(data: Buffer, format: Exclude<DocumentFormat, 'pdf'>): Promise<TextDocument> {
+  switch (format) {
+    case 'docx': {
+      const { value: html, messages } = await mammoth.convertToHtml({ buffer: data });
+      messages
+        .filter((message) => message.type === 'error')
+        .forEach((message) => console.error('DOCX conversion:', message.message));
+      return { title: null, pages: paginate(htmlToText(html)) };
+    }
+    case 'html': {
+      const html = data.toString('utf-8');
+      const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+      return { title: title ? decodeEntities(title).trim() : null, pages: paginate(htmlToText(html)) };
+    }
+    case 'text':
+      return { title: null, pages: paginate(data.toString('utf-8').replace(/\r\n?/g, '\n')) };
+  }
+}
+
+// Splits at explicit page breaks, then packs paragraphs into pages of about PAGE_CHARS
+function paginate(text: string): string[] {
+  const pages: string[] = [];
+
+  for (const section of text.split(PAGE_BREAK)) {
+    let page = '';
+    for (const paragraph of section.split(/\n{2,}/)) {
+      if (page && page.length + paragraph.length > PAGE_CHARS) {
+        pages.push(page.trim());
+        page = '';
+      }
+      page = page ? `${page}\n\n${paragraph}` : paragraph;
+    }
+    if (page.trim()) pages.push(page.trim());
+  }
+
+  return pages;
+}
+
+const BLOCK_TAGS = /^(p|div|section|article|header|footer|main|aside|blockquote|pre|ul|ol|dl|dt|dd|figure|figcaption|hr)$/;
+
+// Converts HTML (hand-written exports or mammoth output) to structured text.
+// A tag-level scan rather than a DOM, which is enough for document markup.
+function htmlToText(html: string): string {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|svg)[\s>][\s\S]*?<\/\1>/gi, '');
+
+  const output: string[] = [];
+  let tableRows: string[][] | null = null;
+  let currentRow: string[] | null = null;
+  let currentCell: string[] | null = null;
+
+  const write = (text: string) => {
+    if (currentCell) {
+      currentCell.push(text);
+    } else {
+      output.push(text);
+    }
+  };
+
+  const tokens = cleaned.split(/(<[^>]+>)/);
+  for (const token of tokens) {
+    const tagMatch = token.match(/^<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>$/);
+    if (!tagMatch) {
+      const text = decodeEntities(token.replace(/\s+/g, ' '));
+      if (text) write(text);
+      continue;
+    }
+
+    const closing = tagMatch[1] === '/';
+    const tag = tagMatch[2].toLowerCase();
+    const attributes = tagMatch[3];
+
+    if (!closing && /page-break-before:\s*always|break-before:\s*page/i.test(attributes)) {
+      output.push(`\n${PAGE_BREAK}\n`);
+    }
+
+    if (tag === 'table') {
+      if (!closing) {
+        tableRows = [];
+      } else if (tableRows) {
+        if (tableRows.length > 0) output.push(`\n\n${tableToMarkdown(tableRows)}\n\n`);
+        tableRows = null;
+      }
+    } else if (tag === 'tr' && tableRows) {
+      if (!closing) {
+        currentRow = [];
+      } else if (currentRow) {
+        if (currentRow.some((cell) => cell)) tableRows.push(currentRow);
+        currentRow = null;
+      }
+    } else if ((tag === 'td' || tag === 'th') && currentRow) {
+      if (!closing) {
+        currentCell = [];
+      } else if (currentCell) {
+        currentRow.push(currentCell.join('').replace(/\s+/g, ' ').trim());
+        currentCell = null;
+      }
+    } else if (/^h[1-6]$/.test(tag)) {
+      write(closing ? '\n\n' : `\n\n${'#'.repeat(Number(tag[1]))} `);
+    } else if (tag === 'li') {
+      if (!closing) write('\n- ');
+    } else if (tag === 'br') {
+      write(currentCell ? ' ' : '\n');
+    } else if (BLOCK_TAGS.test(tag)) {
+      write(currentCell ? ' ' : '\n\n');
+    }
+  }
+
+  return output
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function tableToMarkdown(rows: string[][]): string {
+  const width = Math.max(...rows.map((row) => row.length));
+  const format = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => (row[index] || '').replace(/\|/g, '\\|')).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [
+    format(header),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...body.map(format),
+  ].join('\n');
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  deg: '°',
+  ndash: '–',
+  mdash: '—',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // fromCodePoint throws outside the Unicode range, e.g. on &#99999999;
+      return value >= 0 && value <= 0x10FFFF ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
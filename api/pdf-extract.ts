@@ -1,12 +1,20 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js';
-import { createWorker } from 'tesseract.js';
+import { createWorker, type Worker } from 'tesseract.js';
 import formidable from 'formidable';
 import { readFileSync } from 'fs';
+import { detectDocumentFormat, extractTextDocument, type DocumentFormat, type TextDocument } from './_lib/document-text';
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = require('pdfjs-dist/build/pdf.worker.js');
 
+// Parallel Tesseract workers for scanned pages
+const OCR_CONCURRENCY = Number(process.env.OCR_CONCURRENCY) || 2;
+// A page that takes longer than this is left without OCR text
+const OCR_PAGE_TIMEOUT_MS = 30000;
+// Render scale for OCR; higher reads small print better but is slower
+const OCR_RENDER_SCALE = 2;
+
 // Disable body parsing for multipart/form-data
 export const config = {
   api: {
@@ -14,11 +22,17 @@ export const config = {
   },
 };
 
+type PDFDocument = Awaited<ReturnType<typeof pdfjsLib.getDocument>['promise']>;
+
 interface PDFPageContent {
   pageNumber: number;
+  // Page label printed in the manual (e.g. "DSC-21-10 P 3/12"), when detectable
+  pageLabel: string | null;
   text: string;
   textDensity: number;
   needsOCR: boolean;
+  // Tesseract mean word confidence (0-100) for OCR'd pages; 0 if OCR failed
+  ocrConfidence: number | null;
 }
 
 interface ProcessedContent {
@@ -32,7 +46,11 @@ interface ProcessedContent {
     producer: string;
     creationDate: string | null;
     modificationDate: string | null;
+    format: DocumentFormat;
     processingMethod: 'text-extraction' | 'ocr' | 'hybrid';
+    // Range of pages extracted in this request (all pages unless startPage/endPage were sent)
+    firstPage: number;
+    lastPage: number;
     pageDetails: PDFPageContent[];
   };
 }
@@ -52,7 +70,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    console.log('Enhanced PDF extraction started');
+    console.log('Enhanced document extraction started');
 
     // Parse form data with formidable
     const form = formidable({
@@ -79,7 +97,37 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Empty file uploaded' });
     }
 
-    console.log(`Processing PDF file: ${uploadedFile.originalFilename}, size: ${dataBuffer.length} bytes`);
+    const format = detectDocumentFormat(uploadedFile.originalFilename, uploadedFile.mimetype);
+    if (!format) {
+      return res.status(400).json({ error: 'Unsupported file type' });
+    }
+
+    // Optional page range, so large manuals can be extracted in several requests
+    const startPage = Math.max(1, Number(fields.startPage?.[0]) || 1);
+    const endPage = Number(fields.endPage?.[0]) || Infinity;
+
+    console.log(`Processing ${format} file: ${uploadedFile.originalFilename}, size: ${dataBuffer.length} bytes`);
+
+    // DOCX, HTML and text have no page layout to analyse
+    if (format !== 'pdf') {
+      const textDocument = await extractTextDocument(dataBuffer, format);
+      const extractedContent = buildTextDocumentContent(
+        textDocument,
+        format,
+        uploadedFile.originalFilename || 'Untitled Document',
+        startPage,
+        endPage
+      );
+
+      console.log(`Document extraction completed: ${extractedContent.metadata.pages} pages, format: ${format}`);
+
+      return res.status(200).json({
+        success: true,
+        content: extractedContent.text,
+        metadata: extractedContent.metadata,
+        extractedAt: new Date().toISOString()
+      });
+    }
 
     // Stage 1: Load PDF with PDF.js
     const loadingTask = pdfjsLib.getDocument({
@@ -94,18 +142,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const metadata = await pdfDoc.getMetadata();
     const info = metadata.info || {};
 
+    // Page labels defined in the PDF itself, if any
+    const pdfPageLabels: string[] | null = await pdfDoc.getPageLabels().catch(() => null);
+
+    const lastPage = Math.min(pdfDoc.numPages, endPage);
+
     // Stage 2: Process each page
     const pageContents: PDFPageContent[] = [];
     let totalTextLength = 0;
 
-    for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+    for (let pageNum = startPage; pageNum <= lastPage; pageNum++) {
       const page = await pdfDoc.getPage(pageNum);
       const textContent = await page.getTextContent();
       
-      // Extract text from page
+      // Tables are rebuilt from item positions; everything else keeps the stream order
+      const tables = detectTables(textContent.items);
+
+      // Extract text from page, keeping line breaks so headings and procedure steps stay on their own lines.
+      // Each table is written as a markdown block where its first item appeared.
       const pageText = textContent.items
-        .map((item: any) => item.str || '')
-        .join(' ')
+        .map((item: any, index: number) => {
+          const table = tables.find((candidate) => candidate.itemIndexes.has(index));
+          if (table) {
+            return index === table.firstItemIndex ? `\n\n${tableToMarkdown(table.rows)}\n\n` : '';
+          }
+          return (item.str || '') + (item.hasEOL ? '\n' : ' ');
+        })
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
         .trim();
 
       // Calculate text density (characters per "visual unit")
@@ -117,70 +182,31 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       pageContents.push({
         pageNumber: pageNum,
+        pageLabel: null,
         text: pageText,
         textDensity,
-        needsOCR
+        needsOCR,
+        ocrConfidence: null
       });
 
       totalTextLength += pageText.length;
       
-      console.log(`Page ${pageNum}: ${pageText.length} chars, density: ${textDensity.toFixed(2)}, OCR needed: ${needsOCR}`);
+      console.log(`Page ${pageNum}: ${pageText.length} chars, ${tables.length} tables, density: ${textDensity.toFixed(2)}, OCR needed: ${needsOCR}`);
     }
 
-    // Stage 3: OCR processing for pages that need it (simplified for Vercel)
+    // Stage 3: OCR every page that needs it
     const ocrPages = pageContents.filter(page => page.needsOCR);
     
-    if (ocrPages.length > 0 && ocrPages.length <= 3) { // Limit OCR to 3 pages for performance
-      console.log(`Processing ${ocrPages.length} pages with OCR`);
-      
-      try {
-        const worker = await createWorker('eng');
-        
-        for (const pageContent of ocrPages.slice(0, 3)) { // Process max 3 pages
-          try {
-            // Get page as canvas
-            const page = await pdfDoc.getPage(pageContent.pageNumber);
-            const viewport = page.getViewport({ scale: 1.5 }); // Moderate scale for performance
-            
-            // Create canvas
-            const canvas = require('canvas').createCanvas(viewport.width, viewport.height);
-            const context = canvas.getContext('2d');
-            
-            // Render page to canvas
-            const renderContext = {
-              canvasContext: context,
-              viewport: viewport
-            };
-            
-            await page.render(renderContext).promise;
-            
-            // Convert canvas to image buffer
-            const imageBuffer = canvas.toBuffer('image/png');
-            
-            // Perform OCR with timeout
-            const { data: { text } } = await Promise.race([
-              worker.recognize(imageBuffer),
-              new Promise((_, reject) => 
-                setTimeout(() => reject(new Error('OCR timeout')), 15000)
-              )
-            ]) as any;
-            
-            if (text.trim().length > pageContent.text.length) {
-              console.log(`OCR improved page ${pageContent.pageNumber}: ${text.trim().length} chars vs ${pageContent.text.length} chars`);
-              pageContent.text = text.trim();
-              pageContent.textDensity = text.trim().length / (viewport.width * viewport.height / 10000);
-            }
-            
-          } catch (ocrError) {
-            console.error(`OCR failed for page ${pageContent.pageNumber}:`, ocrError);
-            // Keep original text extraction
-          }
-        }
-        
-        await worker.terminate();
-      } catch (workerError) {
-        console.error('OCR worker initialization failed:', workerError);
-      }
+    if (ocrPages.length > 0) {
+      console.log(`Processing ${ocrPages.length} pages with OCR (${OCR_CONCURRENCY} workers)`);
+      await runOcrPool(pdfDoc, ocrPages);
+    }
+
+    // Label each page now that OCR text is in place
+    for (const pageContent of pageContents) {
+      const pdfLabel = pdfPageLabels?.[pageContent.pageNumber - 1]?.trim();
+      pageContent.pageLabel = detectPrintedPageLabel(pageContent.text)
+        || (pdfLabel && pdfLabel !== String(pageContent.pageNumber) ? pdfLabel : null);
     }
 
     // Stage 4: Combine all text and determine processing method
@@ -205,7 +231,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         producer: info.Producer || '',
         creationDate: info.CreationDate || null,
         modificationDate: info.ModDate || null,
+        format,
         processingMethod,
+        firstPage: startPage,
+        lastPage,
         pageDetails: pageContents
       }
     };
@@ -225,12 +254,315 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
 
   } catch (error: any) {
-    console.error('Enhanced PDF extraction failed:', error);
+    console.error('Enhanced document extraction failed:', error);
     
     return res.status(500).json({
-      error: 'PDF processing failed',
+      error: 'Document processing failed',
       details: error.message,
       timestamp: new Date().toISOString()
     });
   }
 }
+
+function buildTextDocumentContent(
+  textDocument: TextDocument,
+  format: DocumentFormat,
+  fileName: string,
+  startPage: number,
+  endPage: number
+): ProcessedContent {
+  const pageCount = textDocument.pages.length;
+  const lastPage = Math.min(pageCount, endPage);
+
+  const pageDetails: PDFPageContent[] = textDocument.pages
+    .slice(startPage - 1, lastPage)
+    .map((text, index) => ({
+      pageNumber: startPage + index,
+      pageLabel: null,
+      text,
+      textDensity: 0,
+      needsOCR: false,
+      ocrConfidence: null,
+    }));
+
+  return {
+    text: pageDetails.map((page) => page.text).join('\n\n'),
+    metadata: {
+      pages: pageCount,
+      title: textDocument.title || fileName,
+      author: 'Unknown',
+      subject: '',
+      creator: '',
+      producer: '',
+      creationDate: null,
+      modificationDate: null,
+      format,
+      processingMethod: 'text-extraction',
+      firstPage: startPage,
+      lastPage,
+      pageDetails,
+    },
+  };
+}
+
+// OCRs pages with a small pool of Tesseract workers. Each worker takes the
+// next page from the shared queue; a worker that times out is replaced, since
+// Tesseract cannot abort a recognition already in progress.
+async function runOcrPool(pdfDoc: PDFDocument, pages: PDFPageContent[]) {
+  let nextIndex = 0;
+  let completed = 0;
+
+  const runWorker = async () => {
+    let worker: Worker | null = null;
+
+    try {
+      while (nextIndex < pages.length) {
+        const pageContent = pages[nextIndex++];
+
+        try {
+          worker = worker || await createWorker('eng');
+          const { text, confidence } = await withTimeout(
+            ocrPage(worker, pdfDoc, pageContent.pageNumber),
+            OCR_PAGE_TIMEOUT_MS,
+            `OCR timeout on page ${pageContent.pageNumber}`
+          );
+
+          pageContent.ocrConfidence = confidence;
+          if (text.length > pageContent.text.length) {
+            console.log(`OCR improved page ${pageContent.pageNumber}: ${text.length} chars vs ${pageContent.text.length} chars (confidence ${confidence.toFixed(0)})`);
+            pageContent.text = text;
+          }
+        } catch (ocrError) {
+          console.error(`OCR failed for page ${pageContent.pageNumber}:`, ocrError);
+          // Keep original text extraction, flagged as unreadable
+          pageContent.ocrConfidence = 0;
+          await worker?.terminate().catch(() => undefined);
+          worker = null;
+        }
+
+        completed++;
+        console.log(`OCR progress: ${completed}/${pages.length} pages`);
+      }
+    } finally {
+      await worker?.terminate().catch(() => undefined);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(OCR_CONCURRENCY, pages.length) }, () => runWorker())
+  );
+}
+
+async function ocrPage(worker: Worker, pdfDoc: PDFDocument, pageNumber: number) {
+  const page = await pdfDoc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+
+  // Render page to canvas
+  const canvas = require('canvas').createCanvas(viewport.width, viewport.height);
+  const context = canvas.getContext('2d');
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  const { data } = await worker.recognize(canvas.toBuffer('image/png'));
+  return { text: data.text.trim(), confidence: data.confidence };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// The parts of a PDF.js text item used for table detection
+interface PdfTextItem {
+  str?: string;
+  transform?: number[];
+  width?: number;
+  height?: number;
+}
+
+interface PositionedText {
+  index: number;
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DetectedTable {
+  // Indexes into the page's text items that belong to the table
+  itemIndexes: Set<number>;
+  firstItemIndex: number;
+  // First row is treated as the header
+  rows: string[][];
+}
+
+// A table needs at least this many consecutive multi-cell rows
+const MIN_TABLE_ROWS = 3;
+// Horizontal gap, in multiples of the font height, that separates two cells
+const CELL_GAP_FACTOR = 1.5;
+// Cell starts within this distance (PDF units) belong to the same column
+const COLUMN_TOLERANCE = 12;
+
+// Reconstructs tables (limitation and performance tables) from text item
+// positions: items are grouped into rows by baseline, rows are split into cells
+// at wide gaps, and runs of multi-cell rows with aligned columns become tables.
+// Two-column runs need mostly numeric values, so procedure lines with tab-aligned
+// actions ("ENG MASTER 1      OFF") stay as text.
+function detectTables(items: PdfTextItem[]): DetectedTable[] {
+  const positioned: PositionedText[] = items
+    .map((item, index) => ({
+      index,
+      str: (item.str || '').trim(),
+      x: item.transform?.[4] ?? 0,
+      y: item.transform?.[5] ?? 0,
+      width: item.width || 0,
+      height: item.height || Math.abs(item.transform?.[3] || 0) || 10,
+    }))
+    .filter((item) => item.str.length > 0);
+
+  // Group into rows, top of the page first
+  const rows: PositionedText[][] = [];
+  for (const item of [...positioned].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(2, row[0].height * 0.5)) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  const rowCells = rows.map((row) => splitRowIntoCells(row.sort((a, b) => a.x - b.x)));
+
+  const tables: DetectedTable[] = [];
+  let runStart = 0;
+
+  const closeRun = (runEnd: number) => {
+    if (runEnd - runStart >= MIN_TABLE_ROWS) {
+      const table = buildTable(rowCells.slice(runStart, runEnd));
+      if (table) tables.push(table);
+    }
+  };
+
+  for (let i = 0; i < rowCells.length; i++) {
+    const cells = rowCells[i];
+    const previous = rowCells[i - 1];
+    const isTableRow = cells.length >= 2 && !cells.some((cell) => /\.{3,}|…/.test(cell.text));
+    const adjacent = previous && previous.length >= 2 &&
+      previous[0].items[0].y - cells[0].items[0].y <= cells[0].items[0].height * 2.5;
+
+    if (!isTableRow) {
+      closeRun(i);
+      runStart = i + 1;
+    } else if (!adjacent) {
+      closeRun(i);
+      runStart = i;
+    }
+  }
+  closeRun(rowCells.length);
+
+  return tables;
+}
+
+interface Cell {
+  x: number;
+  text: string;
+  items: PositionedText[];
+}
+
+function splitRowIntoCells(row: PositionedText[]): Cell[] {
+  const cells: Cell[] = [];
+
+  for (const item of row) {
+    const cell = cells[cells.length - 1];
+    const previous = cell?.items[cell.items.length - 1];
+    if (cell && item.x - (previous.x + previous.width) <= item.height * CELL_GAP_FACTOR) {
+      cell.items.push(item);
+      cell.text = `${cell.text} ${item.str}`;
+    } else {
+      cells.push({ x: item.x, text: item.str, items: [item] });
+    }
+  }
+
+  return cells;
+}
+
+function buildTable(runRows: Cell[][]): DetectedTable | null {
+  // Column anchors: cell start positions shared by at least half the rows
+  const anchors: { x: number; rows: Set<number> }[] = [];
+  runRows.forEach((cells, rowIndex) => {
+    for (const cell of cells) {
+      const anchor = anchors.find((candidate) => Math.abs(candidate.x - cell.x) <= COLUMN_TOLERANCE);
+      if (anchor) {
+        anchor.rows.add(rowIndex);
+      } else {
+        anchors.push({ x: cell.x, rows: new Set([rowIndex]) });
+      }
+    }
+  });
+
+  const columns = anchors
+    .filter((anchor) => anchor.rows.size * 2 >= runRows.length)
+    .map((anchor) => anchor.x)
+    .sort((a, b) => a - b);
+
+  if (columns.length < 2) {
+    return null;
+  }
+
+  const rows = runRows.map((cells) => {
+    const row: string[] = new Array(columns.length).fill('');
+    for (const cell of cells) {
+      // Last column starting at or before the cell (cells left of column 1 go in column 1)
+      let column = 0;
+      columns.forEach((x, index) => {
+        if (x <= cell.x + COLUMN_TOLERANCE) column = index;
+      });
+      row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+    }
+    return row;
+  });
+
+  // Values (not labels) must be numeric for a two-column table
+  const numericRows = rows.slice(1).filter((row) => /\d/.test(row[1])).length;
+  if (columns.length === 2 && numericRows * 2 < rows.length - 1) {
+    return null;
+  }
+
+  const itemIndexes = new Set(runRows.flatMap((cells) => cells.flatMap((cell) => cell.items.map((item) => item.index))));
+
+  return {
+    itemIndexes,
+    firstItemIndex: Math.min(...itemIndexes),
+    rows,
+  };
+}
+
+function tableToMarkdown(rows: string[][]): string {
+  const escape = (value: string) => value.replace(/\|/g, '\\|');
+  const [header, ...body] = rows;
+  return [
+    `| ${header.map(escape).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map((row) => `| ${row.map(escape).join(' | ')} |`),
+  ].join('\n');
+}
+
+// Printed page references found in manual headers/footers
+const PRINTED_PAGE_LABEL_PATTERNS = [
+  /\b((?:DSC|PRO|LIM|PER|GEN|AS|OEB|FCB)(?:-[A-Z0-9]{1,4}){1,5}\s+P\s*\d+\/\d+)\b/, // FCOM: "DSC-21-10-20 P 3/12"
+  /\b([A-Z]{2,4}[-.]\d{2}[-.]\d{2}[A-Z]?)\s*$/m, // QRH: "ABN-26.01" at a line end
+  /\bpage\s+(\d+\s+of\s+\d+)\b/i, // "Page 12 of 300"
+];
+
+function detectPrintedPageLabel(pageText: string): string | null {
+  for (const pattern of PRINTED_PAGE_LABEL_PATTERNS) {
+    const match = pageText.match(pattern);
+    if (match) {
+      return match[1].replace(/\s+/g, ' ');
+    }
+  }
+  return null;
+}
@@ -0,0 +1,309 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardList, Download, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { FLIGHT_PHASES } from "@/lib/flightPhases";
+import { auditLogToCsv, downloadFile, type AuditLogEntry } from "@/lib/auditExport";
+
+interface AuditFilters {
+  // yyyy-mm-dd, inclusive
+  from: string;
+  to: string;
+  userId: string;
+  phase: string;
+  lowConfidenceOnly: boolean;
+}
+
+// Select value for "no filter"
+const ALL = "all";
+// Entries listed on screen; exports include every entry matching the filters,
+// fetched EXPORT_PAGE_SIZE at a time (the API returns at most 1000 rows per request)
+const PAGE_SIZE = 100;
+const EXPORT_PAGE_SIZE = 1000;
+
+const OUTCOME_LABELS: Record<string, { label: string; className: string }> = {
+  answered: { label: 'Answered', className: 'border-green-500/50 text-green-600' },
+  not_found: { label: 'Not found', className: 'border-amber-500/50 text-amber-600' },
+  stopped: { label: 'Stopped', className: 'border-border text-muted-foreground' },
+  failed: { label: 'Failed', className: 'border-destructive/50 text-destructive' },
+  // Searched, but no answer was recorded (stopped during search, or still answering)
+  unanswered: { label: 'No answer', className: 'border-border text-muted-foreground' },
+};
+
+const formatScore = (score: number | null) => (score === null ? '-' : score.toFixed(3));
+
+// The organisation's answer audit log, for reviewers (e.g. the safety
+// department). Entries are written by the search and answer services and
+// cannot be edited.
+export const AuditLogReview = () => {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>({
+    from: "",
+    to: "",
+    userId: ALL,
+    phase: ALL,
+    lowConfidenceOnly: false,
+  });
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    supabase.rpc('get_organization_members').then(({ data, error }) => {
+      if (error) {
+        console.error('Failed to load organization members:', error);
+        return;
+      }
+      setUserNames(new Map((data || []).map((member) => [member.user_id, member.full_name || 'Unnamed pilot'])));
+    });
+  }, []);
+
+  // Rows offset to offset + count - 1, newest first; id breaks ties so pages
+  // don't overlap. `until` keeps questions asked mid-export from shifting pages.
+  const fetchEntries = useCallback(async (offset: number, count: number, until?: string): Promise<AuditLogEntry[]> => {
+    let query = supabase
+      .from('answer_audit_entries')
+      .select('id, created_at, user_id, conversation_id, query, flight_phase, retrieved_chunks, answer, citations, confidence, outcome, provider')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + count - 1);
+
+    if (filters.from) {
+      query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+    }
+    if (filters.to) {
+      const end = new Date(`${filters.to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      query = query.lt('created_at', end.toISOString());
+    }
+    if (until) {
+      query = query.lte('created_at', until);
+    }
+    if (filters.userId !== ALL) {
+      query = query.eq('user_id', filters.userId);
+    }
+    if (filters.phase !== ALL) {
+      query = query.eq('flight_phase', filters.phase);
+    }
+    if (filters.lowConfidenceOnly) {
+      query = query.eq('confidence', 'low');
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    // The view's columns are all nullable in the generated types, but never null
+    return (data || []) as unknown as AuditLogEntry[];
+  }, [filters]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchEntries(0, PAGE_SIZE)
+      .then(setEntries)
+      .catch((error) => {
+        console.error('Failed to load audit log:', error);
+        toast({
+          title: "Load Failed",
+          description: "Failed to load the audit log.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [fetchEntries, toast]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const until = new Date().toISOString();
+      const exported: AuditLogEntry[] = [];
+      for (;;) {
+        const page = await fetchEntries(exported.length, EXPORT_PAGE_SIZE, until);
+        exported.push(...page);
+        if (page.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      downloadFile(
+        `answer-audit-${new Date().toISOString().slice(0, 10)}.csv`,
+        auditLogToCsv(exported, userNames),
+        'text/csv;charset=utf-8',
+      );
+    } catch (error) {
+      console.error('Audit log export error:', error);
+      toast({
+        title: "Export Failed",
+        description: "Failed to export the audit log. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters((previous) => ({ ...previous, [key]: value }));
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" />
+          Answer Audit Log
+        </h3>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || entries.length === 0}>
+          {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end mb-4">
+        <div>
+          <Label htmlFor="audit-from">From</Label>
+          <Input id="audit-from" type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="audit-to">To</Label>
+          <Input id="audit-to" type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+        </div>
+        <div>
+          <Label>User</Label>
+          <Select value={filters.userId} onValueChange={(value) => updateFilter('userId', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All users</SelectItem>
+              {[...userNames].map(([userId, name]) => (
+                <SelectItem key={userId} value={userId}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Flight phase</Label>
+          <Select value={filters.phase} onValueChange={(value) => updateFilter('phase', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All phases</SelectItem>
+              {FLIGHT_PHASES.map((phase) => (
+                <SelectItem key={phase.value} value={phase.value}>{phase.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Checkbox
+            id="audit-low-confidence"
+            checked={filters.lowConfidenceOnly}
+            onCheckedChange={(checked) => updateFilter('lowConfidenceOnly', checked === true)}
+          />
+          <Label htmlFor="audit-low-confidence" className="font-normal">Low confidence only</Label>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading audit log...
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">No questions match these filters.</p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Asked</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Phase</TableHead>
+                <TableHead>Question</TableHead>
+                <TableHead>Outcome</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <Fragment key={entry.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  >
+                    <TableCell className="whitespace-nowrap text-xs">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{userNames.get(entry.user_id) || 'Former member'}</TableCell>
+                    <TableCell className="text-sm capitalize">{entry.flight_phase || '-'}</TableCell>
+                    <TableCell className="text-sm max-w-xs truncate">{entry.query}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline" className={OUTCOME_LABELS[entry.outcome]?.className}>
+                          {OUTCOME_LABELS[entry.outcome]?.label || entry.outcome}
+                        </Badge>
+                        {entry.confidence && (
+                          <Badge variant="outline" className={entry.confidence === 'low' ? 'border-destructive/50 text-destructive' : ''}>
+                            {entry.confidence}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+
+                  {expandedId === entry.id && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="bg-muted/50 space-y-3">
+                        <div>
+                          <div className="text-xs font-medium text-muted-foreground mb-1">QUESTION</div>
+                          <p className="text-sm whitespace-pre-wrap">{entry.query}</p>
+                        </div>
+                        <div>
+                          <div className="text-xs font-medium text-muted-foreground mb-1">
+                            ANSWER{entry.provider && ` (${entry.provider})`}
+                          </div>
+                          <p className="text-sm whitespace-pre-wrap">{entry.answer || '(no text generated)'}</p>
+                        </div>
+                        <div>
+                          <div className="text-xs font-medium text-muted-foreground mb-1">
+                            RETRIEVED CHUNKS ({entry.retrieved_chunks.length})
+                          </div>
+                          {entry.retrieved_chunks.length === 0 ? (
+                            <p className="text-sm text-muted-foreground">Nothing was retrieved.</p>
+                          ) : (
+                            <div className="space-y-1 font-mono text-xs">
+                              {entry.retrieved_chunks.map((chunk, index) => (
+                                <div key={chunk.id} className={entry.citations.includes(index + 1) ? 'text-foreground' : 'text-muted-foreground'}>
+                                  [{index + 1}] {chunk.document_title || chunk.document_id} p.{chunk.page_number ?? '-'}
+                                  {' '}• similarity {formatScore(chunk.similarity)}
+                                  {' '}• keyword {formatScore(chunk.keyword_rank)}
+                                  {' '}• rerank {formatScore(chunk.rerank_score)}
+                                  {' '}• {chunk.id}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+          {entries.length === PAGE_SIZE && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Showing the latest {PAGE_SIZE} questions; narrow the filters or export to see more.
+            </p>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
@@ -1,38 +1,92 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send, Bot, User, FileText } from "lucide-react";
+import { Send, Bot, User, Square, AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { SourceDisplay } from "./SourceDisplay";
+import { ConversationHistory } from "./ConversationHistory";
+import { SearchScopePicker } from "./SearchScopePicker";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { chatInputSchema, sanitizeInput, createRateLimiter } from "@/lib/validation";
+import { readEventStream } from "@/lib/eventStream";
+import { DEFAULT_SEARCH_SCOPE, describeScope, isDefaultScope, scopeSearchParams, type SearchScope } from "@/lib/searchScope";
 
 interface Source {
+  // Set for sources from uploaded documents, so the original page can be opened
+  documentId?: string;
+  fileName?: string;
   title: string;
   section: string;
   page: number;
+  pageLabel?: string | null;
+  revision?: number | null;
+  effectiveDate?: string | null;
+  type?: 'text' | 'table';
+  // Library the source came from: "Personal" or the organisation's name
+  library?: string;
   excerpt: string;
 }
 
+type ConfidenceLevel = 'high' | 'medium' | 'low';
+
 interface Message {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
   sources?: Source[];
+  // Flight phase selected when the message was sent
+  phase?: string | null;
+  confidence?: ConfidenceLevel | null;
+  // No manual content supports an answer to this question
+  notFound?: boolean;
+  // Abbreviation and synonym expansions searched along with the question
+  expansions?: string[];
+  // Documents the question was searched against
+  scope?: SearchScope | null;
 }
 
 interface DocumentChunk {
   id: string;
+  document_id: string;
   content: string;
   page_number: number;
+  page_label: string | null;
   section_title: string;
+  section_path: string[] | null;
+  chunk_type: 'text' | 'table';
   document_title: string;
   document_type: string;
   file_name: string;
-  similarity: number;
+  revision_number: number | null;
+  effective_date: string | null;
+  organization_name: string | null;
+  scope: 'personal' | 'organization';
+  similarity: number | null;
+}
+
+interface SearchResponse {
+  chunks: DocumentChunk[];
+  expansions: string[];
+  // Server-side record of this search, which answer-question answers from
+  retrievalId: string;
+}
+
+// Earlier message as sent to the backend to resolve follow-up questions
+interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface AnswerResponse {
+  answer: string;
+  citations: number[];
+  confidence: ConfidenceLevel | null;
+  refused: boolean;
 }
 
 interface ChatInterfaceProps {
@@ -42,6 +96,22 @@ interface ChatInterfaceProps {
 // Rate limiter: 20 messages per 5 minutes per user
 const chatRateLimiter = createRateLimiter(20, 5 * 60 * 1000);
 
+// Prior messages sent with each question; the backend applies the same bound
+const HISTORY_WINDOW = 6;
+
+// The open conversation is remembered so a refresh reopens it
+const activeConversationKey = (userId: string) => `flight-assistant:conversation:${userId}`;
+
+const NOT_FOUND_MESSAGE = 'Nothing in your uploaded manuals matches this question. Please consult the applicable FCOM/QRH section directly.';
+
+const CONFIDENCE_LABELS: Record<ConfidenceLevel, { label: string; className: string }> = {
+  high: { label: 'High confidence', className: 'border-green-500/50 text-green-600' },
+  medium: { label: 'Medium confidence', className: 'border-amber-500/50 text-amber-600' },
+  low: { label: 'Low confidence: verify against the manual', className: 'border-destructive/50 text-destructive' },
+};
+
+const formatPhase = (phase: string) => phase.charAt(0).toUpperCase() + phase.slice(1);
+
 export const ChatInterface = ({ selectedPhase }: ChatInterfaceProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -49,6 +119,12 @@ export const ChatInterface = ({ selectedPhase }: ChatInterfaceProps) => {
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [searchingDocs, setSearchingDocs] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [searchScope, setSearchScope] = useState<SearchScope>(DEFAULT_SEARCH_SCOPE);
+  // Assistant message currently receiving streamed text
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -59,34 +135,178 @@ export const ChatInterface = ({ selectedPhase }: ChatInterfaceProps) => {
     scrollToBottom();
   }, [messages]);
 
-  const searchDocuments = async (query: string): Promise<DocumentChunk[]> => {
-    if (!user) return [];
+  const startNewConversation = useCallback(() => {
+    setMessages([]);
+    setConversationId(null);
+    if (user) {
+      localStorage.removeItem(activeConversationKey(user.id));
+    }
+  }, [user]);
+
+  const openConversation = useCallback(async (id: string) => {
+    if (!user) return;
 
+    const { data, error } = await supabase
+      .from('conversation_messages')
+      .select('id, role, content, sources, flight_phase, confidence, not_found, search_expansions, search_scope, created_at')
+      .eq('conversation_id', id)
+      .order('created_at', { ascending: true });
+
+    // A conversation that was deleted elsewhere, or never got a message
+    if (error || !data?.length) {
+      if (error) console.error('Failed to load conversation:', error);
+      startNewConversation();
+      return;
+    }
+
+    setMessages(data.map((row) => ({
+      id: row.id,
+      type: row.role as Message['type'],
+      content: row.content,
+      timestamp: new Date(row.created_at),
+      sources: row.role === 'assistant' ? row.sources as unknown as Source[] : undefined,
+      phase: row.flight_phase,
+      confidence: row.confidence as ConfidenceLevel | null,
+      notFound: row.not_found,
+      expansions: row.search_expansions,
+      scope: row.search_scope as unknown as SearchScope | null,
+    })));
+    setConversationId(id);
+    localStorage.setItem(activeConversationKey(user.id), id);
+  }, [user, startNewConversation]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const savedConversationId = localStorage.getItem(activeConversationKey(user.id));
+    if (savedConversationId) {
+      openConversation(savedConversationId);
+    }
+  }, [user, openConversation]);
+
+  // Creates the conversation on its first message, titled after the question
+  const ensureConversation = async (firstQuestion: string): Promise<string | null> => {
+    if (!user) return null;
+    if (conversationId) return conversationId;
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert({ user_id: user.id, title: firstQuestion.slice(0, 80) })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Failed to create conversation:', error);
+      return null;
+    }
+
+    setConversationId(data.id);
+    localStorage.setItem(activeConversationKey(user.id), data.id);
+    return data.id;
+  };
+
+  // Saving is best-effort: a failed write never blocks the answer
+  const saveMessage = async (targetConversationId: string | null, message: Message) => {
+    if (!user || !targetConversationId) return;
+
+    const { error } = await supabase.from('conversation_messages').insert({
+      conversation_id: targetConversationId,
+      user_id: user.id,
+      role: message.type,
+      content: message.content,
+      sources: (message.sources || []) as unknown as Json,
+      flight_phase: message.phase,
+      confidence: message.confidence ?? null,
+      not_found: message.notFound ?? false,
+      search_expansions: message.expansions ?? [],
+      search_scope: (message.scope ?? null) as unknown as Json,
+    });
+
+    if (error) {
+      console.error('Failed to save message:', error);
+    }
+  };
+
+  const searchDocuments = async (
+    query: string,
+    history: ConversationTurn[],
+    scope: SearchScope,
+    targetConversationId: string | null,
+  ): Promise<SearchResponse> => {
+    if (!user) throw new Error('Not signed in');
+
+    // Throws when the search itself fails: an outage must never read as
+    // "nothing in your manuals"
     try {
       setSearchingDocs(true);
-      
+
       const { data, error } = await supabase.functions.invoke('search-documents', {
         body: {
           query,
+          history,
+          phase: selectedPhase,
           limit: 5,
-          documentTypes: ['FCOM', 'QRH', 'FCTM', 'MEL', 'AFM'], // Aviation manuals
+          ...scopeSearchParams(scope),
+          // Links the audit log entry to the saved conversation
+          conversationId: targetConversationId,
         },
       });
 
       if (error) {
-        console.error('Document search error:', error);
-        return [];
+        throw error;
+      }
+      if (!data?.retrievalId) {
+        throw new Error('Search returned no retrieval');
       }
 
-      return data?.results || [];
-    } catch (error) {
-      console.error('Failed to search documents:', error);
-      return [];
+      return { chunks: data.results || [], expansions: data.expansions || [], retrievalId: data.retrievalId };
     } finally {
       setSearchingDocs(false);
     }
   };
 
+  // Streams the answer, calling onText with each new piece of text. Resolves
+  // with the final result, or null if the request was stopped.
+  const answerQuestion = async (
+    retrievalId: string,
+    history: ConversationTurn[],
+    signal: AbortSignal,
+    onText: (text: string) => void,
+  ): Promise<AnswerResponse | null> => {
+    // The question, phase and chunks come from the recorded search
+    const { data, error } = await supabase.functions.invoke('answer-question', {
+      body: {
+        retrievalId,
+        history,
+        stream: true,
+      },
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    for await (const { event, data: payload } of readEventStream(data as Response, signal)) {
+      if (event === 'token') {
+        onText(JSON.parse(payload).text);
+      } else if (event === 'done') {
+        return JSON.parse(payload);
+      } else if (event === 'error') {
+        throw new Error(JSON.parse(payload).error);
+      }
+    }
+
+    return null;
+  };
+
+  const updateMessage = (id: string, changes: Partial<Message>) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, ...changes } : message));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isLoading || !user) return;
 
@@ -118,56 +338,143 @@ export const ChatInterface = ({ selectedPhase }: ChatInterfaceProps) => {
       type: 'user',
       content: sanitizedInput,
       timestamp: new Date(),
+      phase: selectedPhase,
+      scope: searchScope,
     };
 
+    // Recent turns let follow-ups ("what about with one engine inoperative?") resolve
+    const history: ConversationTurn[] = messages
+      .filter(message => message.content)
+      .slice(-HISTORY_WINDOW)
+      .map(message => ({ role: message.type, content: message.content }));
+
     setMessages(prev => [...prev, userMessage]);
     const query = sanitizedInput;
     setInputValue("");
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const assistantId = (Date.now() + 1).toString();
+
     try {
+      const activeConversationId = await ensureConversation(query);
+      await saveMessage(activeConversationId, userMessage);
+      setHistoryVersion(v => v + 1);
+
       // Search uploaded documents first
-      const documentChunks = await searchDocuments(query);
-      
-      let responseContent = `For the ${selectedPhase} phase, here's the guidance:\n\n`;
+      let search: SearchResponse;
+      try {
+        search = await searchDocuments(query, history, searchScope, activeConversationId);
+      } catch (error) {
+        console.error('Document search failed:', error);
+        if (abortController.signal.aborted) return;
+        // Not a "not found": the manuals were never searched. The question goes back in the box to retry.
+        setInputValue(query);
+        toast({
+          title: "Search Failed",
+          description: "Your manuals could not be searched right now. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (abortController.signal.aborted) return;
+
+      const { chunks: documentChunks, expansions, retrievalId } = search;
+
+      let responseContent = "";
       let sources: Source[] = [];
+      let confidence: ConfidenceLevel | null = null;
+      let notFound = false;
 
       if (documentChunks.length > 0) {
-        // Use real document content
-        responseContent += "Based on your uploaded manuals:\n\n";
-        
-        documentChunks.forEach((chunk, index) => {
-          responseContent += `${index + 1}. ${chunk.content.substring(0, 200)}...\n\n`;
-          
-          sources.push({
-            title: chunk.document_title,
-            section: chunk.section_title || `${chunk.document_type} Manual`,
-            page: chunk.page_number,
-            excerpt: chunk.content.substring(0, 150) + "...",
-          });
+        // Citation marker [N] refers to sources[N - 1]
+        sources = documentChunks.map((chunk) => ({
+          documentId: chunk.document_id,
+          fileName: chunk.file_name,
+          title: chunk.document_title,
+          section: chunk.section_path?.length
+            ? chunk.section_path.join(' › ')
+            : chunk.section_title || `${chunk.document_type} Manual`,
+          page: chunk.page_number,
+          pageLabel: chunk.page_label,
+          revision: chunk.revision_number,
+          effectiveDate: chunk.effective_date,
+          type: chunk.chunk_type,
+          library: chunk.scope === 'organization' ? chunk.organization_name || 'Organisation' : 'Personal',
+          // Tables are shown whole so rows and columns stay intact
+          excerpt: chunk.chunk_type === 'table' ? chunk.content : chunk.content.substring(0, 150) + "...",
+        }));
+
+        // Sources are shown as soon as retrieval completes; the answer streams in above them
+        setMessages(prev => [...prev, {
+          id: assistantId,
+          type: 'assistant',
+          content: '',
+          timestamp: new Date(),
+          sources,
+          phase: selectedPhase,
+          expansions,
+          scope: searchScope,
+        }]);
+        setStreamingMessageId(assistantId);
+
+        // Generate an answer grounded in the retrieved chunks
+        const answer = await answerQuestion(retrievalId, history, abortController.signal, (text) => {
+          responseContent += text;
+          updateMessage(assistantId, { content: responseContent });
         });
+
+        if (!answer) {
+          responseContent = responseContent ? `${responseContent}\n\n(Stopped)` : 'Stopped before an answer was generated.';
+        } else {
+          responseContent = answer.answer;
+          confidence = answer.confidence;
+          if (answer.refused) {
+            sources = [];
+            notFound = true;
+          }
+        }
       } else {
-        // Fallback to mock response
-        responseContent += getMockResponse(selectedPhase, query);
-        sources = getMockSources(selectedPhase);
+        // answer-question refuses straight away with nothing retrieved; it is
+        // still asked so the audit log records the question as not found
+        await answerQuestion(retrievalId, history, abortController.signal, () => {})
+          .catch((error) => console.error('Failed to record the unanswered question:', error));
+
+        // Never fall back to generic guidance: say plainly that the manuals have nothing
+        responseContent = NOT_FOUND_MESSAGE;
+        notFound = true;
       }
 
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: assistantId,
         type: 'assistant',
         content: responseContent,
         timestamp: new Date(),
         sources,
+        phase: selectedPhase,
+        confidence,
+        notFound,
+        expansions,
+        scope: searchScope,
       };
 
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => prev.some(message => message.id === assistantId)
+        ? prev.map(message => message.id === assistantId ? assistantMessage : message)
+        : [...prev, assistantMessage]);
+      await saveMessage(activeConversationId, assistantMessage);
+      setHistoryVersion(v => v + 1);
     } catch (error) {
+      // Drop the placeholder bubble if nothing was streamed into it
+      setMessages(prev => prev.filter(message => message.id !== assistantId || message.content));
       toast({
         title: "Error",
         description: "Failed to process your request. Please try again.",
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setIsLoading(false);
     }
   };
@@ -179,133 +486,156 @@ export const ChatInterface = ({ selectedPhase }: ChatInterfaceProps) => {
     }
   };
 
-  const getMockResponse = (phase: string, query: string) => {
-    const responses: Record<string, string> = {
-      preflight: "Complete all preflight inspection items as per checklist. Verify aircraft configuration, fuel quantity, and weather conditions.",
-      taxi: "Taxi at safe speed, monitor ground traffic, and follow ATC instructions. Complete taxi checklist items.",
-      takeoff: "Set takeoff thrust, monitor engine parameters, and maintain runway centerline until V1/VR/V2 speeds.",
-      climb: "Maintain climb thrust (CLB), target climb rate 1500-2000 ft/min initially, monitor engine parameters.",
-      cruise: "Maintain optimum altitude and speed for fuel efficiency. Monitor fuel consumption and adjust as needed.",
-      descent: "Begin descent at calculated top of descent point. Use appropriate descent profile and speed restrictions.",
-      approach: "Configure aircraft for approach, maintain proper speed and glide path, complete approach checklist.",
-      landing: "Maintain approach speed until threshold, execute proper landing technique, complete landing checklist."
-    };
-    return responses[phase] || "Please refer to the appropriate manual section for detailed procedures.";
-  };
-
-  const getMockSources = (phase: string): Source[] => {
-    return [
-      {
-        title: "A321 FCOM",
-        section: `${phase.charAt(0).toUpperCase() + phase.slice(1)} Procedures`,
-        page: Math.floor(Math.random() * 200) + 100,
-        excerpt: "Standard operating procedures for normal operations. Follow checklist items in sequence and monitor all systems."
-      }
-    ];
-  };
-
   return (
-    <Card className="shadow-cockpit bg-display-gradient border-border h-[calc(100vh-240px)] flex flex-col">
-      {/* Header */}
-      <div className="p-4 border-b border-border">
-        <h2 className="text-lg font-semibold text-foreground">Flight Assistant</h2>
-        <p className="text-sm text-muted-foreground">
-          Ask questions about A321 procedures • Phase: {selectedPhase.charAt(0).toUpperCase() + selectedPhase.slice(1)}
-        </p>
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="md:col-span-1">
+        <ConversationHistory
+          activeConversationId={conversationId}
+          version={historyVersion}
+          onSelect={(id) => !isLoading && openConversation(id)}
+          onNew={() => !isLoading && startNewConversation()}
+          onDeleted={(id) => id === conversationId && startNewConversation()}
+        />
       </div>
 
-      {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.length === 0 && (
-          <div className="text-center py-8 text-muted-foreground">
-            <Bot className="w-12 h-12 mx-auto mb-3 opacity-50" />
-            <p className="text-lg mb-2">Ready to assist with A321 procedures</p>
-            <p className="text-sm">Ask me anything about flight operations, emergency procedures, or system operations</p>
-          </div>
-        )}
-
-        {messages.map((message) => (
-          <div key={message.id} className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[80%] space-y-2 ${message.type === 'user' ? 'text-right' : 'text-left'}`}>
-              <div className="flex items-center gap-2">
-                {message.type === 'user' ? (
-                  <>
-                    <span className="text-xs text-muted-foreground">You</span>
-                    <User className="w-4 h-4 text-muted-foreground" />
-                  </>
-                ) : (
-                  <>
-                    <Bot className="w-4 h-4 text-primary" />
-                    <span className="text-xs text-muted-foreground">A321 Assistant</span>
-                  </>
-                )}
-              </div>
-              
-              <div className={`rounded-lg p-3 ${
-                message.type === 'user' 
-                  ? 'bg-primary text-primary-foreground ml-8' 
-                  : 'bg-card border border-border mr-8'
-              }`}>
-                <div className="whitespace-pre-wrap text-sm">{message.content}</div>
+      <Card className="md:col-span-3 shadow-cockpit bg-display-gradient border-border h-[calc(100vh-240px)] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground">Flight Assistant</h2>
+          <p className="text-sm text-muted-foreground">
+            Ask questions about A321 procedures • Phase: {formatPhase(selectedPhase)}
+          </p>
+        </div>
+
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              <Bot className="w-12 h-12 mx-auto mb-3 opacity-50" />
+              <p className="text-lg mb-2">Ready to assist with A321 procedures</p>
+              <p className="text-sm">Ask me anything about flight operations, emergency procedures, or system operations</p>
+            </div>
+          )}
+
+          {messages.map((message) => (
+            <div key={message.id} className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[80%] space-y-2 ${message.type === 'user' ? 'text-right' : 'text-left'}`}>
+                <div className="flex items-center gap-2">
+                  {message.type === 'user' ? (
+                    <>
+                      <span className="text-xs text-muted-foreground">
+                        You{message.phase && ` • ${formatPhase(message.phase)}`}
+                        {message.scope && !isDefaultScope(message.scope) && ` • ${describeScope(message.scope)}`}
+                      </span>
+                      <User className="w-4 h-4 text-muted-foreground" />
+                    </>
+                  ) : (
+                    <>
+                      <Bot className="w-4 h-4 text-primary" />
+                      <span className="text-xs text-muted-foreground">A321 Assistant</span>
+                    </>
+                  )}
+                </div>
                 
-                {message.type === 'assistant' && message.sources && (
-                  <SourceDisplay sources={message.sources} />
-                )}
+                <div className={`rounded-lg p-3 ${
+                  message.type === 'user' 
+                    ? 'bg-primary text-primary-foreground ml-8' 
+                    : 'bg-card border border-border mr-8'
+                }`}>
+                  <div className="whitespace-pre-wrap text-sm">
+                    {message.content}
+                    {message.id === streamingMessageId && (
+                      <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+                    )}
+                  </div>
+                  
+                  {message.type === 'assistant' && message.expansions && message.expansions.length > 0 && (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      Also searched for: {message.expansions.join(', ')}
+                    </p>
+                  )}
+
+                  {message.type === 'assistant' && message.notFound && (
+                    <Badge variant="outline" className="mt-2 border-amber-500/50 text-amber-600">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Not found in your manuals
+                    </Badge>
+                  )}
+
+                  {message.type === 'assistant' && message.confidence && (
+                    <Badge variant="outline" className={`mt-2 ${CONFIDENCE_LABELS[message.confidence].className}`}>
+                      {CONFIDENCE_LABELS[message.confidence].label}
+                    </Badge>
+                  )}
+
+                  {message.type === 'assistant' && message.sources && message.sources.length > 0 && (
+                    <SourceDisplay sources={message.sources} />
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
-
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="max-w-[80%] space-y-2">
-              <div className="flex items-center gap-2">
-                <Bot className="w-4 h-4 text-primary" />
-                <span className="text-xs text-muted-foreground">A321 Assistant</span>
-              </div>
-              
-              <div className="bg-card border border-border rounded-lg p-3 mr-8">
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <div className="flex gap-1">
-                    <div className="w-2 h-2 bg-primary rounded-full animate-pulse"></div>
-                    <div className="w-2 h-2 bg-primary rounded-full animate-pulse" style={{animationDelay: "0.2s"}}></div>
-                    <div className="w-2 h-2 bg-primary rounded-full animate-pulse" style={{animationDelay: "0.4s"}}></div>
+          ))}
+
+          {isLoading && !streamingMessageId && (
+            <div className="flex justify-start">
+              <div className="max-w-[80%] space-y-2">
+                <div className="flex items-center gap-2">
+                  <Bot className="w-4 h-4 text-primary" />
+                  <span className="text-xs text-muted-foreground">A321 Assistant</span>
+                </div>
+                
+                <div className="bg-card border border-border rounded-lg p-3 mr-8">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <div className="flex gap-1">
+                      <div className="w-2 h-2 bg-primary rounded-full animate-pulse"></div>
+                      <div className="w-2 h-2 bg-primary rounded-full animate-pulse" style={{animationDelay: "0.2s"}}></div>
+                      <div className="w-2 h-2 bg-primary rounded-full animate-pulse" style={{animationDelay: "0.4s"}}></div>
+                    </div>
+                    {searchingDocs ? 'Searching documents...' : 'Analyzing request...'}
                   </div>
-                  {searchingDocs ? 'Searching documents...' : 'Analyzing request...'}
                 </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
 
-        <div ref={messagesEndRef} />
-      </div>
+          <div ref={messagesEndRef} />
+        </div>
 
-      {/* Input */}
-      <div className="p-4 border-t border-border">
-        <div className="flex gap-2">
-          <Textarea
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Ask about procedures, limitations, emergency actions..."
-            className="min-h-[50px] max-h-[120px] resize-none"
-            disabled={isLoading}
-          />
-          <Button 
-            onClick={handleSendMessage}
-            disabled={isLoading || !inputValue.trim() || searchingDocs}
-            size="sm"
-            className="self-end"
-          >
-            {searchingDocs ? (
-              <FileText className="h-4 w-4 animate-pulse" />
+        {/* Input */}
+        <div className="p-4 border-t border-border space-y-2">
+          <SearchScopePicker scope={searchScope} onChange={setSearchScope} disabled={isLoading} />
+          <div className="flex gap-2">
+            <Textarea
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="Ask about procedures, limitations, emergency actions..."
+              className="min-h-[50px] max-h-[120px] resize-none"
+              disabled={isLoading}
+            />
+            {isLoading ? (
+              <Button
+                onClick={handleStop}
+                variant="outline"
+                size="sm"
+                className="self-end"
+                title="Stop"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
             ) : (
-              <Send className="h-4 w-4" />
+              <Button 
+                onClick={handleSendMessage}
+                disabled={!inputValue.trim()}
+                size="sm"
+                className="self-end"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
             )}
-          </Button>
+          </div>
         </div>
-      </div>
-    </Card>
+      </Card>
+    </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, History, MessageSquarePlus, Pencil, Search, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { sanitizeInput } from "@/lib/validation";
+
+interface Conversation {
+  id: string;
+  title: string;
+  updated_at: string;
+  // Matching message text, only set for search results
+  snippet?: string | null;
+}
+
+interface ConversationHistoryProps {
+  activeConversationId: string | null;
+  // Bumped by the chat whenever a conversation is created or gets a new message
+  version: number;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onDeleted: (conversationId: string) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+export const ConversationHistory = ({
+  activeConversationId,
+  version,
+  onSelect,
+  onNew,
+  onDeleted,
+}: ConversationHistoryProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  const loadConversations = useCallback(async (query: string) => {
+    if (!user) return;
+
+    setLoading(true);
+    const { data, error } = query
+      ? await supabase.rpc('search_conversations', { search_query: query })
+      : await supabase
+          .from('conversations')
+          .select('id, title, updated_at')
+          .order('updated_at', { ascending: false })
+          .limit(50);
+
+    if (error) {
+      console.error('Failed to load conversations:', error);
+    } else {
+      setConversations(data || []);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    const query = sanitizeInput(searchQuery.trim());
+    const timer = setTimeout(() => loadConversations(query), query ? SEARCH_DELAY_MS : 0);
+    return () => clearTimeout(timer);
+  }, [searchQuery, version, loadConversations]);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const handleRename = async () => {
+    const title = sanitizeInput(editingTitle.trim()).slice(0, 100);
+    if (!editingId || !title) {
+      setEditingId(null);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({ title })
+      .eq('id', editingId);
+
+    if (error) {
+      toast({
+        title: "Rename Failed",
+        description: error.message || "Failed to rename the conversation",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setConversations(prev => prev.map(c => c.id === editingId ? { ...c, title } : c));
+    setEditingId(null);
+  };
+
+  const handleDelete = async (conversation: Conversation) => {
+    // Messages are removed with the conversation (ON DELETE CASCADE)
+    const { error } = await supabase
+      .from('conversations')
+      .delete()
+      .eq('id', conversation.id);
+
+    if (error) {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete the conversation",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setConversations(prev => prev.filter(c => c.id !== conversation.id));
+    onDeleted(conversation.id);
+  };
+
+  return (
+    <Card className="shadow-cockpit bg-display-gradient border-border h-64 md:h-[calc(100vh-240px)] flex flex-col">
+      <div className="p-4 border-b border-border space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History
+          </h3>
+          <Button variant="ghost" size="sm" onClick={onNew} className="h-7 px-2">
+            <MessageSquarePlus className="w-4 h-4 mr-1" />
+            New
+          </Button>
+        </div>
+        <div className="relative">
+          <Search className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search conversations..."
+            className="h-8 pl-7 text-xs"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {!loading && conversations.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-4">
+            {searchQuery.trim() ? 'No matching conversations' : 'No conversations yet'}
+          </p>
+        )}
+
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group rounded-md px-2 py-1.5 text-sm cursor-pointer ${
+              conversation.id === activeConversationId ? 'bg-primary/10 text-primary' : 'hover:bg-muted/50'
+            }`}
+            onClick={() => editingId !== conversation.id && onSelect(conversation.id)}
+          >
+            {editingId === conversation.id ? (
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                <Input
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="h-7 text-xs"
+                  autoFocus
+                />
+                <Button variant="ghost" size="sm" onClick={handleRename} className="h-6 w-6 p-0">
+                  <Check className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="h-6 w-6 p-0">
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-start justify-between gap-1">
+                <div className="min-w-0">
+                  <div className="truncate">{conversation.title}</div>
+                  {conversation.snippet ? (
+                    <div className="text-xs text-muted-foreground line-clamp-2">{conversation.snippet}</div>
+                  ) : (
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(conversation.updated_at).toLocaleString()}
+                    </div>
+                  )}
+                </div>
+                <div className="flex opacity-0 group-hover:opacity-100" onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="sm" onClick={() => startRename(conversation)} className="h-6 w-6 p-0">
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(conversation)} className="h-6 w-6 p-0">
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
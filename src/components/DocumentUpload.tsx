@@ -6,42 +6,55 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { Upload, FileText, Clock, CheckCircle, XCircle, Trash2, Shield, AlertTriangle } from "lucide-react";
+import { Upload, FileText, Clock, CheckCircle, XCircle, Trash2, Shield, AlertTriangle, Loader2, Archive, ArchiveRestore, RotateCcw } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { RevisionComparison } from "./RevisionComparison";
+import { OrganizationSettings } from "./OrganizationSettings";
+import { GlossarySettings } from "./GlossarySettings";
+import { DOCUMENT_TYPES } from "@/lib/documentTypes";
 import { fileUploadSchema, sanitizeInput, sanitizeFileName, FILE_VALIDATION, createRateLimiter } from "@/lib/validation";
 
 interface Document {
   id: string;
+  user_id: string;
+  organization_id: string | null;
+  retired_at: string | null;
   title: string;
   file_name: string;
   file_path: string;
   document_type: string;
   processing_status: string;
   total_chunks: number;
+  processed_chunks: number;
+  manual_id: string;
+  revision_number: number;
+  effective_date: string | null;
+  is_current: boolean;
+  processing_error: string | null;
+  page_count: number | null;
+  extracted_pages: number;
+  low_confidence_pages: number[];
   created_at: string;
 }
 
-const DOCUMENT_TYPES = [
-  { value: "FCOM", label: "Flight Crew Operating Manual" },
-  { value: "QRH", label: "Quick Reference Handbook" },
-  { value: "FCTM", label: "Flight Crew Training Manual" },
-  { value: "MEL", label: "Minimum Equipment List" },
-  { value: "AFM", label: "Aircraft Flight Manual" },
-  { value: "OTHER", label: "Other Manual" },
-];
+// Select value for uploading a brand new manual rather than a revision
+const NEW_MANUAL = "new";
+
+type Library = "personal" | "organization";
 
 // Rate limiter: 3 uploads per 10 minutes per user
 const uploadRateLimiter = createRateLimiter(3, 10 * 60 * 1000);
 
 export const DocumentUpload = () => {
   const { user } = useAuth();
+  const { organization, isLibrarian, refresh: refreshOrganization } = useOrganization();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [uploading, setUploading] = useState(false);
-  const [processing, setProcessing] = useState<string | null>(null);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
@@ -50,17 +63,50 @@ export const DocumentUpload = () => {
   const [formData, setFormData] = useState({
     title: "",
     documentType: "",
+    manualId: NEW_MANUAL,
+    library: "personal" as Library,
+    revisionNumber: "1",
+    effectiveDate: "",
     file: null as File | null,
   });
 
-  // Load user's documents
+  // Personal documents belong to their uploader; shared ones are managed by librarians
+  const canManage = (doc: Document) => doc.organization_id
+    ? isLibrarian && doc.organization_id === organization?.id
+    : doc.user_id === user?.id;
+
+  // One entry per manual the user can revise: its current revision, or its latest upload if none is current yet
+  const manuals = documents.filter(canManage).filter((doc) =>
+    doc.is_current || !documents.some((other) => other.manual_id === doc.manual_id && other.is_current)
+  ).filter((doc, index, list) => list.findIndex((other) => other.manual_id === doc.manual_id) === index);
+
+  const handleManualSelect = (manualId: string) => {
+    if (manualId === NEW_MANUAL) {
+      setFormData({ ...formData, manualId, revisionNumber: "1" });
+      return;
+    }
+
+    const revisions = documents.filter((doc) => doc.manual_id === manualId);
+    const latest = Math.max(...revisions.map((doc) => doc.revision_number));
+    const manual = manuals.find((doc) => doc.manual_id === manualId);
+    setFormData({
+      ...formData,
+      manualId,
+      revisionNumber: String(latest + 1),
+      title: manual?.title || formData.title,
+      documentType: manual?.document_type || formData.documentType,
+      // A revision stays in the library of the manual it revises
+      library: manual?.organization_id ? "organization" : "personal",
+    });
+  };
+
+  // Load the user's own and organisation documents (RLS decides visibility)
   const loadDocuments = async () => {
     if (!user) return;
 
     const { data, error } = await supabase
       .from('documents')
       .select('*')
-      .eq('user_id', user.id)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -76,15 +122,15 @@ export const DocumentUpload = () => {
 
   // Enhanced file validation
   const validateFile = (file: File): string | null => {
-    // Check file type
-    if (!FILE_VALIDATION.ALLOWED_TYPES.includes(file.type as any)) {
-      return 'Only PDF files are allowed';
+    // Check file type (some browsers report no type for .htm and .txt files)
+    if (file.type && !FILE_VALIDATION.ALLOWED_TYPES.includes(file.type as any)) {
+      return 'Only PDF, DOCX, HTML and text files are allowed';
     }
 
     // Check file extension
     const extension = '.' + file.name.split('.').pop()?.toLowerCase();
     if (!FILE_VALIDATION.ALLOWED_EXTENSIONS.includes(extension as any)) {
-      return 'File must have a .pdf extension';
+      return `File must have one of these extensions: ${FILE_VALIDATION.ALLOWED_EXTENSIONS.join(', ')}`;
     }
 
     // Check file size
@@ -131,7 +177,7 @@ export const DocumentUpload = () => {
       
       // Auto-generate title from filename if not set
       if (!formData.title) {
-        const fileName = sanitizeFileName(file.name.replace('.pdf', ''));
+        const fileName = sanitizeFileName(file.name.replace(/\.[^.]+$/, ''));
         setFormData(prev => ({ ...prev, title: fileName }));
       }
     }
@@ -166,6 +212,8 @@ export const DocumentUpload = () => {
     const validation = fileUploadSchema.safeParse({
       title: sanitizedTitle,
       documentType: formData.documentType,
+      revisionNumber: Number(formData.revisionNumber),
+      effectiveDate: formData.effectiveDate,
     });
 
     if (!validation.success) {
@@ -188,7 +236,7 @@ export const DocumentUpload = () => {
       setFileValidationError('Please select a file');
       toast({
         title: "Missing File",
-        description: "Please select a PDF file to upload",
+        description: "Please select a document to upload",
         variant: "destructive",
       });
       return;
@@ -210,26 +258,12 @@ export const DocumentUpload = () => {
     setUploadProgress(0);
 
     try {
-      // Step 1: Extract text using Vercel API route
-      const formDataForApi = new FormData();
-      formDataForApi.append('file', formData.file);
-
-      const extractResponse = await fetch('/api/pdf-extract', {
-        method: 'POST',
-        body: formDataForApi,
-      });
-
-      if (!extractResponse.ok) {
-        const errorData = await extractResponse.json();
-        throw new Error(errorData.details || 'PDF extraction failed');
-      }
-
-      const { content: extractedText, metadata } = await extractResponse.json();
-      setUploadProgress(25);
-
-      // Step 2: Upload file to storage with sanitized filename
+      // Step 1: Upload file to storage with sanitized filename
       const sanitizedFileName = sanitizeFileName(formData.file.name);
-      const fileName = `${user.id}/${Date.now()}-${sanitizedFileName}`;
+      const sharedOrganizationId = formData.library === "organization" && isLibrarian ? organization?.id : null;
+      // Shared files live under the organisation's folder, see the storage policies
+      const folder = sharedOrganizationId ? `organizations/${sharedOrganizationId}` : user.id;
+      const fileName = `${folder}/${Date.now()}-${sanitizedFileName}`;
       const { error: uploadError } = await supabase.storage
         .from('documents')
         .upload(fileName, formData.file);
@@ -237,17 +271,23 @@ export const DocumentUpload = () => {
       if (uploadError) throw uploadError;
       setUploadProgress(50);
 
-      // Step 3: Create document record with extracted content
+      // Step 2: Create document record
       const { data: document, error: docError } = await supabase
         .from('documents')
         .insert({
           user_id: user.id,
+          organization_id: sharedOrganizationId,
           title: sanitizedTitle,
           file_name: sanitizeFileName(formData.file.name),
           file_path: fileName,
           file_size: formData.file.size,
           document_type: formData.documentType,
-          processing_status: 'processing',
+          processing_status: 'queued',
+          // Becomes the current revision once processing completes
+          manual_id: formData.manualId === NEW_MANUAL ? undefined : formData.manualId,
+          revision_number: Number(formData.revisionNumber),
+          effective_date: formData.effectiveDate || null,
+          is_current: false,
         })
         .select()
         .single();
@@ -255,33 +295,26 @@ export const DocumentUpload = () => {
       if (docError) throw docError;
       setUploadProgress(75);
 
-      // Step 4: Process extracted text into chunks and embeddings
-      setProcessing(document.id);
-      const { error: processError } = await supabase.functions.invoke('process-pdf', {
-        body: { 
-          documentId: document.id,
-          extractedText: extractedText,
-          metadata: metadata
-        },
+      // Step 3: Queue extraction, chunking and embedding in the background.
+      // Progress arrives through the realtime subscription below.
+      const { error: queueError } = await supabase.functions.invoke('ingest-document', {
+        body: { documentId: document.id },
       });
 
-      if (processError) throw processError;
+      if (queueError) throw queueError;
       setUploadProgress(100);
 
       toast({
         title: "Upload Successful",
-        description: `${formData.title} is being processed. This may take a few minutes.`,
+        description: `${formData.title} is queued for processing. You can keep working while it runs.`,
       });
 
       // Reset form
-      setFormData({ title: "", documentType: "", file: null });
+      setFormData({ title: "", documentType: "", manualId: NEW_MANUAL, library: "personal", revisionNumber: "1", effectiveDate: "", file: null });
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
 
-      // Reload documents
-      loadDocuments();
-
     } catch (error: any) {
       // Generic error message for security
       toast({
@@ -292,7 +325,6 @@ export const DocumentUpload = () => {
       console.error('Upload error:', error); // Log for debugging
     } finally {
       setUploading(false);
-      setProcessing(null);
       setUploadProgress(0);
     }
   };
@@ -326,16 +358,100 @@ export const DocumentUpload = () => {
     }
   };
 
+  // Retire (or reinstate) every revision of a manual; retired manuals are not searched
+  const handleRetire = async (doc: Document) => {
+    const retiring = !doc.retired_at;
+
+    const { error } = await supabase
+      .from('documents')
+      .update({ retired_at: retiring ? new Date().toISOString() : null })
+      .eq('manual_id', doc.manual_id);
+
+    if (error) {
+      toast({
+        title: retiring ? "Retire Failed" : "Reinstate Failed",
+        description: error.message || "Failed to update the manual",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: retiring ? "Manual Retired" : "Manual Reinstated",
+      description: retiring
+        ? `${doc.title} will no longer appear in search results`
+        : `${doc.title} is searchable again`,
+    });
+    loadDocuments();
+  };
+
+  // Re-enqueue a document whose ingestion ran out of attempts; the worker
+  // resumes from the step that failed
+  const handleRetry = async (doc: Document) => {
+    const { error } = await supabase.functions.invoke('ingest-document', {
+      body: { documentId: doc.id },
+    });
+
+    if (error) {
+      toast({
+        title: "Retry Failed",
+        description: "Failed to queue the document again. Please try later.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Processing Restarted",
+      description: `${doc.title} is queued for processing again.`,
+    });
+  };
+
   // Load documents on mount
   React.useEffect(() => {
     loadDocuments();
   }, [user]);
 
+  // Live ingestion status: the background worker updates the document rows.
+  // Unfiltered, so shared documents stream too; realtime applies the same RLS.
+  React.useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`documents-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'documents' },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            const inserted = payload.new as Document;
+            setDocuments((prev) => prev.some((doc) => doc.id === inserted.id) ? prev : [inserted, ...prev]);
+          } else if (payload.eventType === 'UPDATE') {
+            const updated = payload.new as Document;
+            setDocuments((prev) => prev.map((doc) => doc.id === updated.id ? updated : doc));
+          } else if (payload.eventType === 'DELETE') {
+            const deleted = payload.old as Partial<Document>;
+            setDocuments((prev) => prev.filter((doc) => doc.id !== deleted.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
-      case 'processing':
+      case 'queued':
         return <Clock className="w-4 h-4 text-amber-500" />;
+      case 'processing':
+      case 'extracting':
+      case 'chunking':
+      case 'embedding':
+        return <Loader2 className="w-4 h-4 text-amber-500 animate-spin" />;
       case 'completed':
         return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'failed':
@@ -349,8 +465,16 @@ export const DocumentUpload = () => {
     switch (status) {
       case 'pending':
         return 'Pending';
+      case 'queued':
+        return 'Queued';
       case 'processing':
         return 'Processing...';
+      case 'extracting':
+        return 'Extracting text...';
+      case 'chunking':
+        return 'Chunking...';
+      case 'embedding':
+        return 'Embedding...';
       case 'completed':
         return 'Ready';
       case 'failed':
@@ -362,11 +486,57 @@ export const DocumentUpload = () => {
 
   return (
     <div className="space-y-6">
+      {/* Organisation */}
+      <OrganizationSettings organization={organization} onChange={refreshOrganization} />
+
+      {/* Organisation abbreviation dictionary */}
+      {organization && <GlossarySettings organization={organization} />}
+
       {/* Upload Form */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold mb-4">Upload Aviation Manual</h3>
         
         <div className="space-y-4">
+          <div>
+            <Label htmlFor="manual">Upload As</Label>
+            <Select 
+              value={formData.manualId} 
+              onValueChange={handleManualSelect}
+              disabled={uploading}
+            >
+              <SelectTrigger id="manual">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_MANUAL}>New manual</SelectItem>
+                {manuals.map((doc) => (
+                  <SelectItem key={doc.manual_id} value={doc.manual_id}>
+                    New revision of {doc.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLibrarian && organization && (
+            <div>
+              <Label htmlFor="library">Library</Label>
+              <Select 
+                value={formData.library} 
+                onValueChange={(value: Library) => setFormData({ ...formData, library: value })}
+                disabled={uploading || formData.manualId !== NEW_MANUAL}
+              >
+                <SelectTrigger id="library">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="personal">Personal</SelectItem>
+                  <SelectItem value="organization">Shared with {organization.name}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="title">Document Title</Label>
             <Input
@@ -405,10 +575,42 @@ export const DocumentUpload = () => {
             )}
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="revisionNumber">Revision</Label>
+              <Input
+                id="revisionNumber"
+                type="number"
+                min={1}
+                value={formData.revisionNumber}
+                onChange={(e) => setFormData({ ...formData, revisionNumber: e.target.value })}
+                className={validationErrors.revisionNumber ? 'border-red-500' : ''}
+                disabled={uploading}
+              />
+              {validationErrors.revisionNumber && (
+                <p className="text-sm text-red-500 mt-1">{validationErrors.revisionNumber}</p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="effectiveDate">Effective Date</Label>
+              <Input
+                id="effectiveDate"
+                type="date"
+                value={formData.effectiveDate}
+                onChange={(e) => setFormData({ ...formData, effectiveDate: e.target.value })}
+                className={validationErrors.effectiveDate ? 'border-red-500' : ''}
+                disabled={uploading}
+              />
+              {validationErrors.effectiveDate && (
+                <p className="text-sm text-red-500 mt-1">{validationErrors.effectiveDate}</p>
+              )}
+            </div>
+          </div>
+
           <div>
             <Label htmlFor="file">
               <div className="flex items-center gap-2">
-                PDF File
+                Document File
                 <Shield className="h-4 w-4 text-muted-foreground" />
               </div>
             </Label>
@@ -416,7 +618,7 @@ export const DocumentUpload = () => {
               id="file"
               ref={fileInputRef}
               type="file"
-              accept=".pdf"
+              accept={FILE_VALIDATION.ALLOWED_EXTENSIONS.join(',')}
               onChange={handleFileSelect}
               className={fileValidationError ? 'border-red-500' : ''}
               disabled={uploading}
@@ -439,7 +641,7 @@ export const DocumentUpload = () => {
               </div>
             )}
             <p className="text-xs text-muted-foreground mt-1">
-              Maximum file size: {FILE_VALIDATION.MAX_SIZE / 1024 / 1024}MB • Only PDF files allowed
+              Maximum file size: {FILE_VALIDATION.MAX_SIZE / 1024 / 1024}MB • PDF, DOCX, HTML or text
             </p>
           </div>
 
@@ -449,7 +651,7 @@ export const DocumentUpload = () => {
               <p className="text-sm text-muted-foreground">
                 {uploadProgress < 50 ? 'Uploading...' : 
                  uploadProgress < 75 ? 'Creating record...' : 
-                 uploadProgress < 100 ? 'Starting processing...' : 'Complete!'}
+                 uploadProgress < 100 ? 'Queueing for processing...' : 'Queued!'}
               </p>
             </div>
           )}
@@ -460,7 +662,7 @@ export const DocumentUpload = () => {
             className="w-full"
           >
             <Upload className="w-4 h-4 mr-2" />
-            {uploading ? 'Processing...' : 'Upload & Process Document'}
+            {uploading ? 'Uploading...' : 'Upload & Process Document'}
           </Button>
         </div>
       </Card>
@@ -483,30 +685,94 @@ export const DocumentUpload = () => {
                     <h4 className="font-medium">{doc.title}</h4>
                     <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                       <Badge variant="outline">{doc.document_type}</Badge>
+                      <Badge variant="secondary">Rev {doc.revision_number}</Badge>
+                      <Badge variant="outline" className="text-muted-foreground">
+                        {doc.organization_id ? organization?.name || 'Organisation' : 'Personal'}
+                      </Badge>
+                      {doc.retired_at && (
+                        <Badge variant="outline" className="border-red-500/50 text-red-600">Retired</Badge>
+                      )}
+                      {!doc.is_current && doc.processing_status === 'completed' && (
+                        <Badge variant="outline" className="text-muted-foreground">Superseded</Badge>
+                      )}
+                      {doc.low_confidence_pages?.length > 0 && (
+                        <Badge
+                          variant="outline"
+                          className="border-amber-500/50 text-amber-600"
+                          title={`Low OCR confidence on page${doc.low_confidence_pages.length > 1 ? 's' : ''} ${doc.low_confidence_pages.join(', ')}`}
+                        >
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {doc.low_confidence_pages.length} low-quality page{doc.low_confidence_pages.length > 1 ? 's' : ''}
+                        </Badge>
+                      )}
+                      {doc.effective_date && (
+                        <>
+                          <span>•</span>
+                          <span>Effective {doc.effective_date}</span>
+                        </>
+                      )}
                       <span>•</span>
                       <span>{getStatusText(doc.processing_status)}</span>
+                      {doc.processing_status === 'extracting' && doc.page_count && (
+                        <>
+                          <span>•</span>
+                          <span>{doc.extracted_pages}/{doc.page_count} pages</span>
+                        </>
+                      )}
                       {doc.total_chunks > 0 && (
                         <>
                           <span>•</span>
-                          <span>{doc.total_chunks} chunks</span>
+                          <span>
+                            {doc.processing_status === 'completed'
+                              ? `${doc.total_chunks} chunks`
+                              : `${doc.processed_chunks}/${doc.total_chunks} chunks`}
+                          </span>
                         </>
                       )}
                     </div>
+                    {doc.processing_status === 'failed' && doc.processing_error && (
+                      <p className="text-xs text-red-500 mt-1">{doc.processing_error}</p>
+                    )}
                   </div>
                 </div>
                 
-                <Button
-                  variant="destructive"
-                  size="sm"
-                  onClick={() => handleDelete(doc)}
-                >
-                  <Trash2 className="w-4 h-4" />
-                </Button>
+                {canManage(doc) && (
+                  <div className="flex items-center gap-2">
+                    {doc.processing_status === 'failed' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRetry(doc)}
+                        title="Retry processing"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRetire(doc)}
+                      title={doc.retired_at ? 'Reinstate manual' : 'Retire manual'}
+                    >
+                      {doc.retired_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleDelete(doc)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
             ))}
           </div>
         )}
       </Card>
+
+      {/* Revision Comparison */}
+      <RevisionComparison documents={documents} />
     </div>
   );
 };
\ No newline at end of file
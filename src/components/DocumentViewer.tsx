@@ -0,0 +1,270 @@
+import { useEffect, useRef, useState } from "react";
+import * as pdfjsLib from "pdfjs-dist";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, ExternalLink, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export interface ViewerSource {
+  documentId: string;
+  fileName?: string;
+  title: string;
+  page: number;
+  pageLabel?: string | null;
+  excerpt: string;
+}
+
+interface DocumentViewerProps {
+  source: ViewerSource | null;
+  onClose: () => void;
+}
+
+interface HighlightBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Signed URLs only need to outlive the viewing session
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+const RENDER_WIDTH = 800;
+// Shorter excerpt prefixes tried, longest first, when locating it on the page
+const MATCH_PREFIX_LENGTHS = [80, 40, 20];
+
+// Letters and digits only, so spacing, hyphenation, markdown table pipes and
+// the "..." on truncated excerpts do not stop the excerpt matching the page
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Indexes of the page's text items that make up the excerpt
+const findExcerptItems = (items: string[], excerpt: string): Set<number> => {
+  const target = normalize(excerpt);
+  if (!target) {
+    return new Set();
+  }
+
+  const owners: number[] = [];
+  let pageText = '';
+  items.forEach((item, index) => {
+    const normalized = normalize(item);
+    pageText += normalized;
+    owners.push(...Array(normalized.length).fill(index));
+  });
+
+  for (const length of MATCH_PREFIX_LENGTHS) {
+    const start = pageText.indexOf(target.slice(0, length));
+    if (start >= 0) {
+      const end = Math.min(start + target.length, pageText.length);
+      return new Set(owners.slice(start, end));
+    }
+  }
+
+  return new Set();
+};
+
+export const DocumentViewer = ({ source, onClose }: DocumentViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [signedUrl, setSignedUrl] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [highlights, setHighlights] = useState<HighlightBox[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPdf = !source?.fileName || source.fileName.toLowerCase().endsWith('.pdf');
+
+  // Load the original file through a short-lived signed URL (the bucket is private)
+  useEffect(() => {
+    if (!source) return;
+
+    let cancelled = false;
+    let loadedPdf: PDFDocumentProxy | null = null;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      setPdf(null);
+      setSignedUrl(null);
+      setPageNumber(source.page || 1);
+
+      try {
+        const { data: document, error: documentError } = await supabase
+          .from('documents')
+          .select('file_path')
+          .eq('id', source.documentId)
+          .single();
+
+        if (documentError) throw documentError;
+
+        const { data: signed, error: signError } = await supabase.storage
+          .from('documents')
+          .createSignedUrl(document.file_path, SIGNED_URL_TTL_SECONDS);
+
+        if (signError) throw signError;
+        if (cancelled) return;
+        setSignedUrl(signed.signedUrl);
+
+        if (!isPdf) return;
+
+        loadedPdf = await pdfjsLib.getDocument(signed.signedUrl).promise;
+        if (cancelled) {
+          loadedPdf.destroy();
+          return;
+        }
+        setPdf(loadedPdf);
+      } catch (loadError) {
+        console.error('Failed to open document:', loadError);
+        if (!cancelled) setError('The original document could not be opened.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      loadedPdf?.destroy();
+    };
+  }, [source, isPdf]);
+
+  // Render the current page, highlighting the excerpt on the cited page
+  useEffect(() => {
+    if (!pdf || !source || !canvasRef.current) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    const canvas = canvasRef.current;
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const scale = RENDER_WIDTH / page.getViewport({ scale: 1 }).width;
+      const viewport = page.getViewport({ scale });
+
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvasContext: canvas.getContext('2d')!, viewport });
+      await renderTask.promise;
+
+      if (cancelled || pageNumber !== source.page) {
+        setHighlights([]);
+        return;
+      }
+
+      const textContent = await page.getTextContent();
+      const items = textContent.items.filter((item) => 'str' in item);
+      const matched = findExcerptItems(items.map((item) => item.str), source.excerpt);
+
+      setHighlights(items
+        .filter((_, index) => matched.has(index))
+        .map((item) => {
+          const transform = pdfjsLib.Util.transform(viewport.transform, item.transform);
+          const height = Math.hypot(transform[2], transform[3]);
+          return {
+            left: transform[4],
+            top: transform[5] - height,
+            width: item.width * scale,
+            height,
+          };
+        }));
+    };
+
+    render().catch((renderError) => {
+      if (renderError instanceof pdfjsLib.RenderingCancelledException) return;
+      console.error('Failed to render page:', renderError);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, source]);
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{source?.title}</DialogTitle>
+          <DialogDescription>
+            Cited on page {source?.page}
+            {source?.pageLabel && ` (${source.pageLabel})`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-12 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Opening document...
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive py-4">{error}</p>}
+
+        {!loading && !error && !isPdf && signedUrl && (
+          <p className="text-sm text-muted-foreground py-4">
+            Only PDF manuals can be previewed.{' '}
+            <a href={signedUrl} target="_blank" rel="noreferrer" className="text-primary underline">
+              Download the original
+            </a>
+          </p>
+        )}
+
+        {pdf && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageNumber((page) => page - 1)}
+                  disabled={pageNumber <= 1}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {pageNumber} of {pdf.numPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPageNumber((page) => page + 1)}
+                  disabled={pageNumber >= pdf.numPages}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                {source && pageNumber !== source.page && (
+                  <Button variant="ghost" size="sm" onClick={() => setPageNumber(source.page)}>
+                    Back to cited page
+                  </Button>
+                )}
+              </div>
+              {signedUrl && (
+                <a href={signedUrl} target="_blank" rel="noreferrer" className="text-xs text-primary flex items-center gap-1">
+                  <ExternalLink className="w-3 h-3" />
+                  Open original
+                </a>
+              )}
+            </div>
+
+            <div className="overflow-auto border rounded bg-white">
+              <div className="relative mx-auto" style={{ width: RENDER_WIDTH }}>
+                <canvas ref={canvasRef} className="block" />
+                {highlights.map((box, index) => (
+                  <div
+                    key={index}
+                    className="absolute bg-yellow-300/40 rounded-sm pointer-events-none"
+                    style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+                  />
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
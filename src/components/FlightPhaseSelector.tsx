@@ -1,24 +1,13 @@
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FLIGHT_PHASES } from "@/lib/flightPhases";
 
 interface FlightPhaseSelectorProps {
   selectedPhase: string;
   onPhaseChange: (phase: string) => void;
 }
 
-const flightPhases = [
-  { value: "preflight", label: "Pre-flight", icon: "📋" },
-  { value: "taxi", label: "Taxi", icon: "🛬" },
-  { value: "takeoff", label: "Takeoff", icon: "🛫" },
-  { value: "climb", label: "Climb", icon: "📈" },
-  { value: "cruise", label: "Cruise", icon: "✈️" },
-  { value: "descent", label: "Descent", icon: "📉" },
-  { value: "approach", label: "Approach", icon: "🎯" },
-  { value: "landing", label: "Landing", icon: "🛬" },
-  { value: "emergency", label: "Emergency", icon: "🚨" },
-];
-
 export const FlightPhaseSelector = ({ selectedPhase, onPhaseChange }: FlightPhaseSelectorProps) => {
   return (
     <Card className="p-4 shadow-display bg-display-gradient border-border">
@@ -35,7 +24,7 @@ export const FlightPhaseSelector = ({ selectedPhase, onPhaseChange }: FlightPhas
             <SelectValue />
           </SelectTrigger>
           <SelectContent className="bg-popover border-border">
-            {flightPhases.map((phase) => (
+            {FLIGHT_PHASES.map((phase) => (
               <SelectItem key={phase.value} value={phase.value} className="hover:bg-muted">
                 <div className="flex items-center gap-2">
                   <span>{phase.icon}</span>
@@ -51,10 +40,10 @@ export const FlightPhaseSelector = ({ selectedPhase, onPhaseChange }: FlightPhas
           <div className="text-xs font-medium text-muted-foreground mb-1">CURRENT PHASE</div>
           <div className="flex items-center gap-2">
             <span className="text-lg">
-              {flightPhases.find(p => p.value === selectedPhase)?.icon}
+              {FLIGHT_PHASES.find(p => p.value === selectedPhase)?.icon}
             </span>
             <span className="font-semibold text-foreground">
-              {flightPhases.find(p => p.value === selectedPhase)?.label}
+              {FLIGHT_PHASES.find(p => p.value === selectedPhase)?.label}
             </span>
           </div>
         </div>
@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { BookA, Pencil, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { sanitizeInput } from "@/lib/validation";
+import type { Organization } from "@/hooks/useOrganization";
+
+interface GlossaryTerm {
+  id: string;
+  term: string;
+  expansions: string[];
+}
+
+interface GlossarySettingsProps {
+  organization: Organization;
+}
+
+// "a, b , c" → ["a", "b", "c"]
+const parseExpansions = (value: string) =>
+  value.split(',').map((expansion) => sanitizeInput(expansion)).filter(Boolean);
+
+// The organisation's additions to the built-in abbreviation dictionary that
+// questions are expanded with. Every member sees them; librarians edit them.
+export const GlossarySettings = ({ organization }: GlossarySettingsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [term, setTerm] = useState("");
+  const [expansions, setExpansions] = useState("");
+  // Term being edited in the form, null when adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const isLibrarian = organization.role === 'librarian';
+
+  const loadTerms = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('organization_glossary_terms')
+      .select('id, term, expansions')
+      .eq('organization_id', organization.id)
+      .order('term');
+
+    if (error) {
+      console.error('Failed to load glossary:', error);
+      return;
+    }
+    setTerms(data || []);
+  }, [organization.id]);
+
+  useEffect(() => {
+    loadTerms();
+  }, [loadTerms]);
+
+  const resetForm = () => {
+    setTerm("");
+    setExpansions("");
+    setEditingId(null);
+  };
+
+  const handleEdit = (entry: GlossaryTerm) => {
+    setTerm(entry.term);
+    setExpansions(entry.expansions.join(', '));
+    setEditingId(entry.id);
+  };
+
+  const handleSave = async () => {
+    const cleanTerm = sanitizeInput(term);
+    if (!cleanTerm || !user) return;
+
+    setSaving(true);
+    try {
+      const values = { term: cleanTerm, expansions: parseExpansions(expansions) };
+      const { error } = editingId
+        ? await supabase
+          .from('organization_glossary_terms')
+          .update(values)
+          .eq('id', editingId)
+        : await supabase
+          .from('organization_glossary_terms')
+          .insert({ ...values, organization_id: organization.id, created_by: user.id });
+
+      if (error) throw error;
+
+      resetForm();
+      loadTerms();
+    } catch (error) {
+      console.error('Glossary update error:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to save the term. A term can only be listed once.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: GlossaryTerm) => {
+    const { error } = await supabase
+      .from('organization_glossary_terms')
+      .delete()
+      .eq('id', entry.id);
+
+    if (error) {
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete the term.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (entry.id === editingId) resetForm();
+    loadTerms();
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <BookA className="w-5 h-5" />
+        Abbreviations and Synonyms
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Questions are also searched with the expansions of any term they contain. These {organization.name} terms
+        add to the built-in A320-family dictionary; a term listed with no expansions turns a built-in one off.
+      </p>
+
+      {isLibrarian && (
+        <div className="flex items-end gap-2 mb-4">
+          <div className="w-1/3">
+            <Label htmlFor="glossary-term">Term</Label>
+            <Input
+              id="glossary-term"
+              value={term}
+              onChange={(e) => setTerm(e.target.value)}
+              placeholder="e.g., dual hyd"
+              disabled={saving}
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="glossary-expansions">Also search for (comma-separated)</Label>
+            <Input
+              id="glossary-expansions"
+              value={expansions}
+              onChange={(e) => setExpansions(e.target.value)}
+              placeholder="e.g., hyd g+y sys lo pr, hyd b+y sys lo pr"
+              disabled={saving}
+            />
+          </div>
+          <Button onClick={handleSave} disabled={saving || !term.trim()}>
+            {saving ? 'Saving...' : editingId ? 'Update' : 'Add'}
+          </Button>
+          {editingId && (
+            <Button variant="ghost" onClick={resetForm} disabled={saving}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      )}
+
+      {terms.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No organisation terms yet; the built-in dictionary applies.</p>
+      ) : (
+        <div className="space-y-2">
+          {terms.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between text-sm border rounded-lg px-3 py-2">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-medium">{entry.term}</span>
+                {entry.expansions.length > 0 ? (
+                  entry.expansions.map((expansion) => (
+                    <Badge key={expansion} variant="outline">{expansion}</Badge>
+                  ))
+                ) : (
+                  <Badge variant="secondary">Not expanded</Badge>
+                )}
+              </div>
+              {isLibrarian && (
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(entry)} title="Edit">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(entry)} title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
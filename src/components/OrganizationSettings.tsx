@@ -0,0 +1,386 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2, Mail, ShieldCheck, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { emailSchema, sanitizeInput } from "@/lib/validation";
+import type { Organization, OrganizationRole } from "@/hooks/useOrganization";
+
+interface OrganizationMember {
+  user_id: string;
+  full_name: string | null;
+  role: OrganizationRole;
+}
+
+// An invitation sent by this organisation's librarians
+interface SentInvitation {
+  id: string;
+  email: string;
+  created_at: string;
+}
+
+// An invitation addressed to the signed-in user
+interface ReceivedInvitation {
+  id: string;
+  organization_id: string;
+  organization_name: string;
+  created_at: string;
+}
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  member: 'Member',
+  librarian: 'Librarian',
+  reviewer: 'Reviewer',
+};
+
+interface OrganizationSettingsProps {
+  organization: Organization | null;
+  onChange: () => void;
+}
+
+// Users join an organisation by accepting a librarian's invitation, or start
+// one and become its librarian. Librarians invite crew, manage who else can
+// upload and retire shared manuals, and who reviews the answer audit log.
+export const OrganizationSettings = ({ organization, onChange }: OrganizationSettingsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [organizationName, setOrganizationName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [sentInvitations, setSentInvitations] = useState<SentInvitation[]>([]);
+  const [receivedInvitations, setReceivedInvitations] = useState<ReceivedInvitation[]>([]);
+
+  const isLibrarian = organization?.role === 'librarian';
+
+  const loadReceivedInvitations = async () => {
+    const { data, error } = await supabase.rpc('get_my_organization_invitations');
+    if (error) {
+      console.error('Failed to load invitations:', error);
+      return;
+    }
+    setReceivedInvitations(data || []);
+  };
+
+  useEffect(() => {
+    if (user && !organization) {
+      loadReceivedInvitations();
+    } else {
+      setReceivedInvitations([]);
+    }
+  }, [user, organization]);
+
+  const loadMembers = async () => {
+    const { data, error } = await supabase.rpc('get_organization_members');
+    if (error) {
+      console.error('Failed to load organization members:', error);
+      return;
+    }
+    setMembers((data || []) as OrganizationMember[]);
+  };
+
+  const loadSentInvitations = async (organizationId: string) => {
+    const { data, error } = await supabase
+      .from('organization_invitations')
+      .select('id, email, created_at')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to load sent invitations:', error);
+      return;
+    }
+    setSentInvitations(data || []);
+  };
+
+  const organizationId = organization?.id;
+
+  useEffect(() => {
+    if (isLibrarian && organizationId) {
+      loadMembers();
+      loadSentInvitations(organizationId);
+    } else {
+      setMembers([]);
+      setSentInvitations([]);
+    }
+  }, [isLibrarian, organizationId]);
+
+  // Runs an organisation RPC, reporting database errors (which explain
+  // themselves, e.g. "Make another member a librarian before leaving")
+  const runAction = async (action: () => PromiseLike<{ error: { message: string } | null }>, success: string) => {
+    setSaving(true);
+    try {
+      const { error } = await action();
+      if (error) {
+        toast({
+          title: "Update Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      toast({ title: "Organisation Updated", description: success });
+      return true;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = sanitizeInput(organizationName);
+    if (!name) return;
+
+    if (await runAction(() => supabase.rpc('create_organization', { p_name: name }), `You are the librarian of ${name}.`)) {
+      setOrganizationName("");
+      onChange();
+    }
+  };
+
+  const handleAccept = async (invitation: ReceivedInvitation) => {
+    if (await runAction(
+      () => supabase.rpc('accept_organization_invitation', { p_invitation_id: invitation.id }),
+      `You now share the ${invitation.organization_name} document library.`,
+    )) {
+      onChange();
+    }
+  };
+
+  const handleDecline = async (invitation: ReceivedInvitation) => {
+    if (await runAction(
+      () => supabase.rpc('decline_organization_invitation', { p_invitation_id: invitation.id }),
+      `Declined the invitation to ${invitation.organization_name}.`,
+    )) {
+      loadReceivedInvitations();
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!organization) return;
+
+    if (await runAction(() => supabase.rpc('leave_organization'), "You no longer belong to an organisation.")) {
+      onChange();
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!organization || !user) return;
+
+    const email = inviteEmail.trim().toLowerCase();
+    if (!emailSchema.safeParse(email).success) {
+      toast({
+        title: "Invalid Email",
+        description: "Enter the email address the crew member signs in with.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (await runAction(
+      () => supabase
+        .from('organization_invitations')
+        .insert({ organization_id: organization.id, email, invited_by: user.id }),
+      `${email} can join once they sign in.`,
+    )) {
+      setInviteEmail("");
+      loadSentInvitations(organization.id);
+    }
+  };
+
+  const handleWithdraw = async (invitation: SentInvitation) => {
+    if (!organization) return;
+
+    const { error } = await supabase
+      .from('organization_invitations')
+      .delete()
+      .eq('id', invitation.id);
+
+    if (error) {
+      toast({
+        title: "Update Failed",
+        description: "Failed to withdraw the invitation.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    loadSentInvitations(organization.id);
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrganizationRole) => {
+    const { error } = await supabase.rpc('set_organization_member_role', {
+      p_user_id: member.user_id,
+      p_role: role,
+    });
+
+    if (error) {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to change the member's role.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    loadMembers();
+    if (member.user_id === user?.id) {
+      onChange();
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (await runAction(
+      () => supabase.rpc('remove_organization_member', { p_user_id: member.user_id }),
+      `${member.full_name || 'The member'} no longer shares the document library.`,
+    )) {
+      loadMembers();
+      if (member.user_id === user?.id) {
+        onChange();
+      }
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Building2 className="w-5 h-5" />
+        Organisation Library
+      </h3>
+
+      {organization ? (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            Member of <span className="font-medium text-foreground">{organization.name}</span>
+            {organization.role !== 'member' && (
+              <Badge variant="secondary" className="ml-2">
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                {ROLE_LABELS[organization.role]}
+              </Badge>
+            )}
+          </p>
+          <Button variant="outline" size="sm" onClick={handleLeave} disabled={saving}>
+            Leave
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {receivedInvitations.length > 0 ? (
+            <div className="space-y-2">
+              {receivedInvitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between text-sm border rounded-lg px-3 py-2">
+                  <span className="flex items-center gap-2">
+                    <Mail className="w-4 h-4 text-muted-foreground" />
+                    Invitation to join <span className="font-medium">{invitation.organization_name}</span>
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" onClick={() => handleAccept(invitation)} disabled={saving}>
+                      Accept
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDecline(invitation)} disabled={saving}>
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Ask your organisation's librarian to invite you to search the manuals it shares.
+            </p>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="organization-name">Start an organisation</Label>
+              <Input
+                id="organization-name"
+                value={organizationName}
+                onChange={(e) => setOrganizationName(e.target.value)}
+                placeholder="e.g., Example Airways"
+                disabled={saving}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={saving || !organizationName.trim()}>
+              Create
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLibrarian && (
+        <div className="mt-4 space-y-2">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="invite-email">Invite a crew member</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="pilot@airline.com"
+                disabled={saving}
+              />
+            </div>
+            <Button onClick={handleInvite} disabled={saving || !inviteEmail.trim()}>
+              Invite
+            </Button>
+          </div>
+
+          {sentInvitations.length > 0 && (
+            <>
+              <div className="text-xs font-medium text-muted-foreground pt-2">PENDING INVITATIONS ({sentInvitations.length})</div>
+              {sentInvitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between text-sm border rounded-lg px-3 py-2">
+                  <span>{invitation.email}</span>
+                  <Button variant="ghost" size="sm" onClick={() => handleWithdraw(invitation)} title="Withdraw invitation">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      {isLibrarian && members.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <div className="text-xs font-medium text-muted-foreground">MEMBERS ({members.length})</div>
+          {members.map((member) => (
+            <div key={member.user_id} className="flex items-center justify-between text-sm border rounded-lg px-3 py-2">
+              <span>
+                {member.full_name || 'Unnamed pilot'}
+                {member.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+              </span>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={member.role}
+                  onValueChange={(role) => handleRoleChange(member, role as OrganizationRole)}
+                >
+                  <SelectTrigger className="w-32 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {member.user_id !== user?.id && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(member)} disabled={saving} title="Remove from organisation">
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
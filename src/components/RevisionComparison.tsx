@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp, GitCompare } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { diffRevisions, type RevisionChunk, type SectionChange, type SectionChangeType } from "@/lib/revisionDiff";
+
+interface RevisionDocument {
+  id: string;
+  title: string;
+  manual_id: string;
+  revision_number: number;
+  processing_status: string;
+}
+
+interface RevisionComparisonProps {
+  documents: RevisionDocument[];
+}
+
+// PostgREST returns at most 1000 rows per request
+const CHUNK_PAGE_SIZE = 1000;
+
+const CHANGE_STYLES: Record<SectionChangeType, string> = {
+  added: "border-green-500/50 text-green-600",
+  removed: "border-red-500/50 text-red-600",
+  modified: "border-amber-500/50 text-amber-600",
+  unchanged: "text-muted-foreground",
+};
+
+const loadChunks = async (documentId: string): Promise<RevisionChunk[]> => {
+  const chunks: RevisionChunk[] = [];
+
+  for (let from = 0; ; from += CHUNK_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('document_chunks')
+      .select('chunk_index, content, page_number, section_title, section_path')
+      .eq('document_id', documentId)
+      .order('chunk_index', { ascending: true })
+      .range(from, from + CHUNK_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    chunks.push(...(data || []));
+    if (!data || data.length < CHUNK_PAGE_SIZE) break;
+  }
+
+  return chunks;
+};
+
+export const RevisionComparison = ({ documents }: RevisionComparisonProps) => {
+  const { toast } = useToast();
+  const [manualId, setManualId] = useState("");
+  const [baseId, setBaseId] = useState("");
+  const [compareId, setCompareId] = useState("");
+  const [comparing, setComparing] = useState(false);
+  const [changes, setChanges] = useState<SectionChange[] | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
+
+  const completed = documents.filter((doc) => doc.processing_status === 'completed');
+  const revisionsOf = (id: string) => completed
+    .filter((doc) => doc.manual_id === id)
+    .sort((a, b) => a.revision_number - b.revision_number);
+
+  // Only manuals with at least two processed revisions can be compared
+  const manuals = completed
+    .filter((doc, index, list) => list.findIndex((other) => other.manual_id === doc.manual_id) === index)
+    .filter((doc) => revisionsOf(doc.manual_id).length >= 2);
+
+  if (manuals.length === 0) {
+    return null;
+  }
+
+  const revisions = revisionsOf(manualId);
+
+  const handleManualSelect = (id: string) => {
+    const manualRevisions = revisionsOf(id);
+    setManualId(id);
+    setBaseId(manualRevisions[manualRevisions.length - 2].id);
+    setCompareId(manualRevisions[manualRevisions.length - 1].id);
+    setChanges(null);
+  };
+
+  const handleCompare = async () => {
+    setComparing(true);
+    setChanges(null);
+    setExpandedSections(new Set());
+
+    try {
+      const [baseChunks, compareChunks] = await Promise.all([loadChunks(baseId), loadChunks(compareId)]);
+      setChanges(diffRevisions(baseChunks, compareChunks));
+    } catch (error) {
+      console.error('Revision comparison error:', error);
+      toast({
+        title: "Comparison Failed",
+        description: "Failed to load the revisions. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const toggleSection = (key: string) => {
+    const newExpanded = new Set(expandedSections);
+    if (newExpanded.has(key)) {
+      newExpanded.delete(key);
+    } else {
+      newExpanded.add(key);
+    }
+    setExpandedSections(newExpanded);
+  };
+
+  const counts = (changes || []).reduce((acc, change) => {
+    acc[change.type] = (acc[change.type] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<SectionChangeType, number>>);
+
+  const visibleChanges = (changes || []).filter((change) => showUnchanged || change.type !== 'unchanged');
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4">Compare Revisions</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label>Manual</Label>
+          <Select value={manualId} onValueChange={handleManualSelect}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select manual" />
+            </SelectTrigger>
+            <SelectContent>
+              {manuals.map((doc) => (
+                <SelectItem key={doc.manual_id} value={doc.manual_id}>{doc.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>From</Label>
+          <Select value={baseId} onValueChange={setBaseId} disabled={!manualId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Older revision" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((doc) => (
+                <SelectItem key={doc.id} value={doc.id}>Rev {doc.revision_number}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>To</Label>
+          <Select value={compareId} onValueChange={setCompareId} disabled={!manualId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Newer revision" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((doc) => (
+                <SelectItem key={doc.id} value={doc.id}>Rev {doc.revision_number}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button
+        onClick={handleCompare}
+        disabled={comparing || !baseId || !compareId || baseId === compareId}
+        className="w-full mt-4"
+      >
+        <GitCompare className="w-4 h-4 mr-2" />
+        {comparing ? 'Comparing...' : 'Compare Revisions'}
+      </Button>
+
+      {changes && (
+        <div className="mt-6 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="outline" className={CHANGE_STYLES.added}>{counts.added || 0} added</Badge>
+            <Badge variant="outline" className={CHANGE_STYLES.removed}>{counts.removed || 0} removed</Badge>
+            <Badge variant="outline" className={CHANGE_STYLES.modified}>{counts.modified || 0} modified</Badge>
+            <Button variant="ghost" size="sm" onClick={() => setShowUnchanged(!showUnchanged)}>
+              {showUnchanged ? 'Hide' : 'Show'} {counts.unchanged || 0} unchanged
+            </Button>
+          </div>
+
+          {visibleChanges.length === 0 && (
+            <p className="text-muted-foreground text-center py-4">No differences between these revisions.</p>
+          )}
+
+          {visibleChanges.map((change) => (
+            <div key={`${change.type}-${change.key}`} className="border rounded-lg p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 flex-1 min-w-0">
+                  <Badge variant="outline" className={`text-xs ${CHANGE_STYLES[change.type]}`}>
+                    {change.type}
+                  </Badge>
+                  <span className="text-sm truncate">{change.path.join(' › ')}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {change.newPage ? `p.${change.newPage}` : change.oldPage ? `was p.${change.oldPage}` : ''}
+                  </span>
+                </div>
+                {change.lines.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggleSection(change.key)}
+                    className="h-6 w-6 p-0"
+                  >
+                    {expandedSections.has(change.key) ? (
+                      <ChevronUp className="w-3 h-3" />
+                    ) : (
+                      <ChevronDown className="w-3 h-3" />
+                    )}
+                  </Button>
+                )}
+              </div>
+
+              {change.previousPath && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Moved from {change.previousPath.join(' › ')}
+                </p>
+              )}
+
+              {expandedSections.has(change.key) && (
+                <div className="mt-2 pt-2 border-t border-border/30 font-mono text-xs space-y-0.5">
+                  {change.lines.map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.type === 'added' ? 'bg-green-500/10 text-green-700' :
+                        line.type === 'removed' ? 'bg-red-500/10 text-red-700 line-through' :
+                        'text-muted-foreground'
+                      }
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Filter } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { DOCUMENT_TYPES } from "@/lib/documentTypes";
+import {
+  DEFAULT_SEARCH_SCOPE,
+  describeScope,
+  isDefaultScope,
+  type ScopedDocument,
+  type SearchScope,
+} from "@/lib/searchScope";
+
+interface SearchableDocument extends ScopedDocument {
+  documentType: string;
+}
+
+interface SearchScopePickerProps {
+  scope: SearchScope;
+  onChange: (scope: SearchScope) => void;
+  disabled?: boolean;
+}
+
+const toggle = <T,>(items: T[], item: T, included: boolean) =>
+  included ? [...items, item] : items.filter((existing) => existing !== item);
+
+// Narrows the next questions to some document types, documents or revisions.
+// Documents are listed once processed; retired manuals are never searched.
+export const SearchScopePicker = ({ scope, onChange, disabled }: SearchScopePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [documents, setDocuments] = useState<SearchableDocument[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    supabase
+      .from('documents')
+      .select('id, title, document_type, revision_number, is_current')
+      .eq('processing_status', 'completed')
+      .is('retired_at', null)
+      .order('title')
+      .order('revision_number', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Failed to load documents for the search scope:', error);
+          return;
+        }
+        setDocuments((data || []).map((row) => ({
+          id: row.id,
+          title: row.title,
+          documentType: row.document_type,
+          revisionNumber: row.revision_number,
+          isCurrent: row.is_current,
+        })));
+      });
+  }, [open]);
+
+  // Documents of the chosen types; superseded revisions only when they are searched or already picked
+  const listedDocuments = documents.filter((document) =>
+    (scope.documentTypes.length === 0 || scope.documentTypes.includes(document.documentType))
+    && (document.isCurrent || scope.includeSuperseded || scope.documents.some((picked) => picked.id === document.id))
+  );
+
+  const isPicked = (document: SearchableDocument) => scope.documents.some((picked) => picked.id === document.id);
+
+  const handleDocumentToggle = (document: SearchableDocument, included: boolean) => {
+    const { id, title, revisionNumber, isCurrent } = document;
+    onChange({
+      ...scope,
+      documents: included
+        ? [...scope.documents, { id, title, revisionNumber, isCurrent }]
+        : scope.documents.filter((picked) => picked.id !== id),
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant={isDefaultScope(scope) ? "ghost" : "secondary"}
+          size="sm"
+          className="max-w-[50%] justify-start"
+          disabled={disabled}
+          title="Search scope"
+        >
+          <Filter className="h-4 w-4 mr-1 shrink-0" />
+          <span className="truncate">{describeScope(scope)}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-4">
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-2">DOCUMENT TYPES</div>
+          <div className="grid grid-cols-3 gap-2">
+            {DOCUMENT_TYPES.map((type) => (
+              <div key={type.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`scope-type-${type.value}`}
+                  checked={scope.documentTypes.includes(type.value)}
+                  onCheckedChange={(checked) => onChange({
+                    ...scope,
+                    documentTypes: toggle(scope.documentTypes, type.value, checked === true),
+                  })}
+                />
+                <Label htmlFor={`scope-type-${type.value}`} className="text-sm font-normal" title={type.label}>
+                  {type.value}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-2">REVISIONS</div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="scope-superseded"
+              checked={scope.includeSuperseded}
+              onCheckedChange={(checked) => onChange({ ...scope, includeSuperseded: checked === true })}
+            />
+            <Label htmlFor="scope-superseded" className="text-sm font-normal">
+              Include superseded revisions
+            </Label>
+          </div>
+        </div>
+
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-2">DOCUMENTS</div>
+          {listedDocuments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No processed documents match these types.</p>
+          ) : (
+            <ScrollArea className="h-40">
+              <div className="space-y-2 pr-3">
+                {listedDocuments.map((document) => (
+                  <div key={document.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-document-${document.id}`}
+                      checked={isPicked(document)}
+                      onCheckedChange={(checked) => handleDocumentToggle(document, checked === true)}
+                    />
+                    <Label htmlFor={`scope-document-${document.id}`} className="text-sm font-normal flex-1 truncate">
+                      {document.title} (Rev {document.revisionNumber})
+                    </Label>
+                    {!document.isCurrent && <Badge variant="outline" className="text-xs">superseded</Badge>}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+          <p className="text-xs text-muted-foreground mt-2">
+            Leave every document unticked to search all of them.
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(DEFAULT_SEARCH_SCOPE)}
+            disabled={isDefaultScope(scope)}
+          >
+            Reset
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
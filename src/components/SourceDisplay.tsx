@@ -2,12 +2,21 @@ import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronDown, ChevronUp } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronUp, FileSearch, Table2 } from "lucide-react";
+import { DocumentViewer, type ViewerSource } from "./DocumentViewer";
 
 interface Source {
+  documentId?: string;
+  fileName?: string;
   title: string;
   section: string;
   page: number;
+  pageLabel?: string | null;
+  revision?: number | null;
+  effectiveDate?: string | null;
+  type?: 'text' | 'table';
+  library?: string;
   excerpt: string;
 }
 
@@ -15,8 +24,49 @@ interface SourceDisplayProps {
   sources: Source[];
 }
 
+// Splits a markdown table into rows of cells, dropping the "| --- |" separator
+const parseMarkdownTable = (markdown: string): string[][] =>
+  markdown
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('|') && !/^\|(\s*:?-{3,}:?\s*\|)+$/.test(line))
+    .map((line) => line
+      .slice(1, -1)
+      .split(/(?<!\\)\|/)
+      .map((cell) => cell.trim().replace(/\\\|/g, '|'))
+    );
+
+const SourceTable = ({ markdown }: { markdown: string }) => {
+  const [header, ...rows] = parseMarkdownTable(markdown);
+  if (!header) {
+    return null;
+  }
+
+  return (
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          {header.map((cell, index) => (
+            <TableHead key={index} className="h-8 px-2">{cell}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row, rowIndex) => (
+          <TableRow key={rowIndex}>
+            {row.map((cell, index) => (
+              <TableCell key={index} className="px-2 py-1">{cell}</TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
 export const SourceDisplay = ({ sources }: SourceDisplayProps) => {
   const [expandedSources, setExpandedSources] = useState<Set<number>>(new Set());
+  const [viewingSource, setViewingSource] = useState<ViewerSource | null>(null);
 
   const toggleSource = (index: number) => {
     const newExpanded = new Set(expandedSources);
@@ -38,36 +88,75 @@ export const SourceDisplay = ({ sources }: SourceDisplayProps) => {
         <Card key={index} className="bg-muted/50 border border-border/50 p-2">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2 flex-1">
+              <span className="text-xs font-mono text-muted-foreground">[{index + 1}]</span>
               <Badge variant="outline" className="text-xs border-primary/50 text-primary">
                 {source.title}
               </Badge>
+              {source.library && (
+                <Badge variant="secondary" className="text-xs">
+                  {source.library}
+                </Badge>
+              )}
+              {source.type === 'table' && (
+                <Table2 className="w-3 h-3 text-muted-foreground" aria-label="Table" />
+              )}
+              {source.revision && (
+                <span
+                  className="text-xs text-muted-foreground"
+                  title={source.effectiveDate ? `Effective ${source.effectiveDate}` : undefined}
+                >
+                  Rev {source.revision}
+                </span>
+              )}
               <span className="text-xs text-muted-foreground">
                 {source.section} • p.{source.page}
+                {source.pageLabel && ` (${source.pageLabel})`}
               </span>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => toggleSource(index)}
-              className="h-6 w-6 p-0"
-            >
-              {expandedSources.has(index) ? (
-                <ChevronUp className="w-3 h-3" />
-              ) : (
-                <ChevronDown className="w-3 h-3" />
+            <div className="flex items-center">
+              {source.documentId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setViewingSource({ ...source, documentId: source.documentId! })}
+                  className="h-6 w-6 p-0"
+                  title="View page in the original document"
+                >
+                  <FileSearch className="w-3 h-3" />
+                </Button>
               )}
-            </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => toggleSource(index)}
+                className="h-6 w-6 p-0"
+              >
+                {expandedSources.has(index) ? (
+                  <ChevronUp className="w-3 h-3" />
+                ) : (
+                  <ChevronDown className="w-3 h-3" />
+                )}
+              </Button>
+            </div>
           </div>
           
           {expandedSources.has(index) && (
             <div className="mt-2 pt-2 border-t border-border/30">
-              <div className="text-xs text-foreground bg-card/50 p-2 rounded border">
-                "{source.excerpt}"
-              </div>
+              {source.type === 'table' ? (
+                <div className="bg-card/50 rounded border">
+                  <SourceTable markdown={source.excerpt} />
+                </div>
+              ) : (
+                <div className="text-xs text-foreground bg-card/50 p-2 rounded border">
+                  "{source.excerpt}"
+                </div>
+              )}
             </div>
           )}
         </Card>
       ))}
+
+      <DocumentViewer source={viewingSource} onClose={() => setViewingSource(null)} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type OrganizationRole = 'member' | 'librarian' | 'reviewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+}
+
+// The signed-in user's organisation (joined by invitation), if any
+export const useOrganization = () => {
+  const { user } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setOrganization(null);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('role, organizations(id, name)')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to load organization:', error);
+    }
+
+    setOrganization(data?.organizations
+      ? { id: data.organizations.id, name: data.organizations.name, role: data.role as OrganizationRole }
+      : null);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    organization,
+    isLibrarian: organization?.role === 'librarian',
+    // Reviewers read the organisation's answer audit log
+    isReviewer: organization?.role === 'reviewer',
+    loading,
+    refresh,
+  };
+};
@@ -14,35 +14,222 @@ export type Database = {
   }
   public: {
     Tables: {
+      answer_audit_log: {
+        Row: {
+          answer: string
+          citations: number[]
+          confidence: string | null
+          conversation_id: string | null
+          created_at: string
+          flight_phase: string | null
+          id: string
+          organization_id: string | null
+          outcome: string
+          provider: string | null
+          query: string
+          retrieval_id: string | null
+          retrieved_chunks: Json
+          user_id: string
+        }
+        Insert: {
+          answer: string
+          citations?: number[]
+          confidence?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          flight_phase?: string | null
+          id?: string
+          organization_id?: string | null
+          outcome: string
+          provider?: string | null
+          query: string
+          retrieval_id?: string | null
+          retrieved_chunks?: Json
+          user_id: string
+        }
+        Update: {
+          answer?: string
+          citations?: number[]
+          confidence?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          flight_phase?: string | null
+          id?: string
+          organization_id?: string | null
+          outcome?: string
+          provider?: string | null
+          query?: string
+          retrieval_id?: string | null
+          retrieved_chunks?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_audit_log_retrieval_id_fkey"
+            columns: ["retrieval_id"]
+            isOneToOne: false
+            referencedRelation: "answer_retrievals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      answer_retrievals: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          flight_phase: string | null
+          id: string
+          organization_id: string | null
+          query: string
+          retrieved_chunks: Json
+          user_id: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          flight_phase?: string | null
+          id?: string
+          organization_id?: string | null
+          query: string
+          retrieved_chunks?: Json
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          flight_phase?: string | null
+          id?: string
+          organization_id?: string | null
+          query?: string
+          retrieved_chunks?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      conversation_messages: {
+        Row: {
+          confidence: string | null
+          content: string
+          content_tsv: unknown | null
+          conversation_id: string
+          created_at: string
+          flight_phase: string | null
+          id: string
+          not_found: boolean
+          role: string
+          search_expansions: string[]
+          search_scope: Json | null
+          sources: Json
+          user_id: string
+        }
+        Insert: {
+          confidence?: string | null
+          content: string
+          content_tsv?: unknown | null
+          conversation_id: string
+          created_at?: string
+          flight_phase?: string | null
+          id?: string
+          not_found?: boolean
+          role: string
+          search_expansions?: string[]
+          search_scope?: Json | null
+          sources?: Json
+          user_id: string
+        }
+        Update: {
+          confidence?: string | null
+          content?: string
+          content_tsv?: unknown | null
+          conversation_id?: string
+          created_at?: string
+          flight_phase?: string | null
+          id?: string
+          not_found?: boolean
+          role?: string
+          search_expansions?: string[]
+          search_scope?: Json | null
+          sources?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       document_chunks: {
         Row: {
           chunk_index: number
+          chunk_type: string
           content: string
+          content_tsv: unknown | null
           created_at: string
           document_id: string
           embedding: string | null
+          flight_phases: string[]
           id: string
+          page_label: string | null
           page_number: number | null
+          section_path: string[] | null
           section_title: string | null
         }
         Insert: {
           chunk_index: number
+          chunk_type?: string
           content: string
+          content_tsv?: unknown | null
           created_at?: string
           document_id: string
           embedding?: string | null
+          flight_phases?: string[]
           id?: string
+          page_label?: string | null
           page_number?: number | null
+          section_path?: string[] | null
           section_title?: string | null
         }
         Update: {
           chunk_index?: number
+          chunk_type?: string
           content?: string
+          content_tsv?: unknown | null
           created_at?: string
           document_id?: string
           embedding?: string | null
+          flight_phases?: string[]
           id?: string
+          page_label?: string | null
           page_number?: number | null
+          section_path?: string[] | null
           section_title?: string | null
         }
         Relationships: [
@@ -55,46 +242,301 @@ export type Database = {
           },
         ]
       }
+      document_pages: {
+        Row: {
+          created_at: string
+          document_id: string
+          id: string
+          ocr_confidence: number | null
+          page_label: string | null
+          page_number: number
+          text: string
+        }
+        Insert: {
+          created_at?: string
+          document_id: string
+          id?: string
+          ocr_confidence?: number | null
+          page_label?: string | null
+          page_number: number
+          text?: string
+        }
+        Update: {
+          created_at?: string
+          document_id?: string
+          id?: string
+          ocr_confidence?: number | null
+          page_label?: string | null
+          page_number?: number
+          text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_pages_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
+          chunks_hash: string | null
           created_at: string
           document_type: string | null
+          effective_date: string | null
+          extracted_pages: number
           file_name: string
           file_path: string
           file_size: number | null
           id: string
+          is_current: boolean
+          low_confidence_pages: number[]
+          manual_id: string
+          organization_id: string | null
+          page_count: number | null
+          processed_chunks: number
+          processing_error: string | null
           processing_status: string | null
+          retired_at: string | null
+          revision_number: number
+          superseded_at: string | null
           title: string
           total_chunks: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          chunks_hash?: string | null
           created_at?: string
           document_type?: string | null
+          effective_date?: string | null
+          extracted_pages?: number
           file_name: string
           file_path: string
           file_size?: number | null
           id?: string
+          is_current?: boolean
+          low_confidence_pages?: number[]
+          manual_id?: string
+          organization_id?: string | null
+          page_count?: number | null
+          processed_chunks?: number
+          processing_error?: string | null
           processing_status?: string | null
+          retired_at?: string | null
+          revision_number?: number
+          superseded_at?: string | null
           title: string
           total_chunks?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          chunks_hash?: string | null
           created_at?: string
           document_type?: string | null
+          effective_date?: string | null
+          extracted_pages?: number
           file_name?: string
           file_path?: string
           file_size?: number | null
           id?: string
+          is_current?: boolean
+          low_confidence_pages?: number[]
+          manual_id?: string
+          organization_id?: string | null
+          page_count?: number | null
+          processed_chunks?: number
+          processing_error?: string | null
           processing_status?: string | null
+          retired_at?: string | null
+          revision_number?: number
+          superseded_at?: string | null
           title?: string
           total_chunks?: number | null
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "documents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingestion_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          document_id: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          document_id: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          document_id?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: true
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_glossary_terms: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expansions: string[]
+          id: string
+          organization_id: string
+          term: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expansions?: string[]
+          id?: string
+          organization_id: string
+          term: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expansions?: string[]
+          id?: string
+          organization_id?: string
+          term?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_glossary_terms_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
         Relationships: []
       }
       profiles: {
@@ -132,13 +574,63 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      answer_audit_entries: {
+        Row: {
+          answer: string | null
+          citations: number[] | null
+          confidence: string | null
+          conversation_id: string | null
+          created_at: string | null
+          flight_phase: string | null
+          id: string | null
+          organization_id: string | null
+          outcome: string | null
+          provider: string | null
+          query: string | null
+          retrieved_chunks: Json | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_organization_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: string
+      }
+      assign_organization_librarian: {
+        Args: { p_organization_id: string; p_user_id: string }
+        Returns: undefined
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      create_organization: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      decline_organization_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: undefined
+      }
+      get_my_organization_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          organization_id: string
+          organization_name: string
+          created_at: string
+        }[]
+      }
+      get_organization_members: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          full_name: string
+          role: string
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -171,6 +663,18 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      is_organization_librarian: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      is_organization_member: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
+      is_organization_reviewer: {
+        Args: { p_organization_id: string }
+        Returns: boolean
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -191,6 +695,92 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: string
       }
+      leave_organization: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      remove_organization_member: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      search_conversations: {
+        Args: { search_query: string; match_count?: number }
+        Returns: {
+          id: string
+          title: string
+          updated_at: string
+          snippet: string
+          rank: number
+        }[]
+      }
+      search_keyword_chunks: {
+        Args: {
+          query_text: string
+          match_count?: number
+          document_types?: string[]
+          include_superseded?: boolean
+          document_ids?: string[]
+          min_rank?: number
+        }
+        Returns: {
+          id: string
+          document_id: string
+          chunk_type: string
+          flight_phases: string[]
+          content: string
+          page_number: number
+          page_label: string
+          section_title: string
+          section_path: string[]
+          document_title: string
+          document_type: string
+          file_name: string
+          revision_number: number
+          effective_date: string
+          is_current: boolean
+          organization_id: string
+          organization_name: string
+          keyword_rank: number
+        }[]
+      }
+      search_similar_chunks: {
+        Args: {
+          query_embedding: string
+          match_threshold?: number
+          match_count?: number
+          document_types?: string[]
+          include_superseded?: boolean
+          document_ids?: string[]
+        }
+        Returns: {
+          id: string
+          document_id: string
+          chunk_type: string
+          flight_phases: string[]
+          content: string
+          page_number: number
+          page_label: string
+          section_title: string
+          section_path: string[]
+          document_title: string
+          document_type: string
+          file_name: string
+          revision_number: number
+          effective_date: string
+          is_current: boolean
+          organization_id: string
+          organization_name: string
+          similarity: number
+        }[]
+      }
+      set_current_revision: {
+        Args: { p_document_id: string }
+        Returns: undefined
+      }
+      set_organization_member_role: {
+        Args: { p_role: string; p_user_id: string }
+        Returns: undefined
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { auditLogToCsv, type AuditLogEntry } from './auditExport';
+
+const entry = (changes: Partial<AuditLogEntry>): AuditLogEntry => ({
+  id: 'entry-1',
+  created_at: '2026-10-19T08:00:00Z',
+  user_id: 'user-1',
+  conversation_id: null,
+  query: 'What is VAPP?',
+  flight_phase: null,
+  retrieved_chunks: [],
+  answer: 'VAPP is the approach speed [1].',
+  citations: [1],
+  confidence: 'high',
+  outcome: 'answered',
+  provider: 'openai',
+  ...changes,
+});
+
+const dataRow = (entries: AuditLogEntry[]) => auditLogToCsv(entries, new Map([['user-1', 'A. Pilot']])).split('\r\n')[1];
+
+describe('auditLogToCsv', () => {
+  it('quotes every field and doubles embedded quotes', () => {
+    expect(dataRow([entry({ query: 'What does "LAND ASAP" mean?' })])).toContain('"What does ""LAND ASAP"" mean?"');
+  });
+
+  it.each(['=HYPERLINK("http://example.com")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd'])(
+    'prefixes a field starting %j so spreadsheets do not run it as a formula',
+    (query) => {
+      expect(dataRow([entry({ query })])).toContain(`"'${query.replace(/"/g, '""')}"`);
+    },
+  );
+
+  it('leaves ordinary text as it is', () => {
+    const row = dataRow([entry({})]);
+    expect(row).toContain('"What is VAPP?"');
+    expect(row).toContain('"A. Pilot"');
+  });
+});
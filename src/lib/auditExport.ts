@@ -0,0 +1,87 @@
+// CSV export of answer audit log entries for the safety department.
+
+export interface AuditedChunk {
+  id: string;
+  document_id: string | null;
+  document_title: string | null;
+  page_number: number | null;
+  similarity: number | null;
+  keyword_rank: number | null;
+  retrieval_score: number | null;
+  rerank_score: number | null;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  created_at: string;
+  user_id: string;
+  conversation_id: string | null;
+  query: string;
+  flight_phase: string | null;
+  retrieved_chunks: AuditedChunk[];
+  answer: string;
+  citations: number[];
+  confidence: string | null;
+  outcome: string;
+  provider: string | null;
+}
+
+const CSV_COLUMNS = [
+  'created_at',
+  'user_id',
+  'user_name',
+  'flight_phase',
+  'query',
+  'outcome',
+  'confidence',
+  'answer',
+  'citations',
+  'retrieved_chunks',
+  'conversation_id',
+  'provider',
+] as const;
+
+// Questions and answers are user-controlled: spreadsheets would run a field
+// starting with one of these as a formula, so it is prefixed with '
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes every field, doubling embedded quotes (RFC 4180)
+const csvField = (value: unknown) => {
+  const text = String(value ?? '');
+  const safe = FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+// One row per entry; chunks are "id (similarity / keyword rank / rerank score)", separated by "; "
+export const auditLogToCsv = (entries: AuditLogEntry[], userNames: Map<string, string>): string => {
+  const rows = entries.map((entry) => {
+    const values: Record<typeof CSV_COLUMNS[number], unknown> = {
+      created_at: entry.created_at,
+      user_id: entry.user_id,
+      user_name: userNames.get(entry.user_id),
+      flight_phase: entry.flight_phase,
+      query: entry.query,
+      outcome: entry.outcome,
+      confidence: entry.confidence,
+      answer: entry.answer,
+      citations: entry.citations.join(' '),
+      retrieved_chunks: entry.retrieved_chunks
+        .map((chunk) => `${chunk.id} (${chunk.similarity ?? '-'} / ${chunk.keyword_rank ?? '-'} / ${chunk.rerank_score ?? '-'})`)
+        .join('; '),
+      conversation_id: entry.conversation_id,
+      provider: entry.provider,
+    };
+    return CSV_COLUMNS.map((column) => csvField(values[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,9 @@
+// Manual types a document can be uploaded as, and searched by
+export const DOCUMENT_TYPES = [
+  { value: "FCOM", label: "Flight Crew Operating Manual" },
+  { value: "QRH", label: "Quick Reference Handbook" },
+  { value: "FCTM", label: "Flight Crew Training Manual" },
+  { value: "MEL", label: "Minimum Equipment List" },
+  { value: "AFM", label: "Aircraft Flight Manual" },
+  { value: "OTHER", label: "Other Manual" },
+];
@@ -0,0 +1,52 @@
+// Reader for server-sent event responses from the edge functions.
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Yields events as they arrive. Aborting the signal cancels the underlying
+// request, which ends the iteration.
+export async function* readEventStream(response: Response, signal?: AbortSignal): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+
+  if (signal?.aborted) {
+    cancel();
+    return;
+  }
+  signal?.addEventListener('abort', cancel);
+
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += value;
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+          } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).trimStart());
+          }
+        }
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
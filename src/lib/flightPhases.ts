@@ -0,0 +1,12 @@
+// Flight phases the crew selects, matching the tags search-documents boosts
+export const FLIGHT_PHASES = [
+  { value: "preflight", label: "Pre-flight", icon: "📋" },
+  { value: "taxi", label: "Taxi", icon: "🛬" },
+  { value: "takeoff", label: "Takeoff", icon: "🛫" },
+  { value: "climb", label: "Climb", icon: "📈" },
+  { value: "cruise", label: "Cruise", icon: "✈️" },
+  { value: "descent", label: "Descent", icon: "📉" },
+  { value: "approach", label: "Approach", icon: "🎯" },
+  { value: "landing", label: "Landing", icon: "🛬" },
+  { value: "emergency", label: "Emergency", icon: "🚨" },
+];
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffRevisions, type RevisionChunk } from './revisionDiff';
+
+const chunk = (index: number, path: string[], content: string, page = 1): RevisionChunk => ({
+  chunk_index: index,
+  content,
+  page_number: page,
+  section_title: path[path.length - 1],
+  section_path: path,
+});
+
+describe('diffLines', () => {
+  it('marks kept, removed and added lines', () => {
+    expect(diffLines('A\nB\nC', 'A\nC\nD')).toEqual([
+      { type: 'same', text: 'A' },
+      { type: 'removed', text: 'B' },
+      { type: 'same', text: 'C' },
+      { type: 'added', text: 'D' },
+    ]);
+  });
+});
+
+describe('diffRevisions', () => {
+  it('reports unchanged, modified, added and removed sections', () => {
+    const changes = diffRevisions(
+      [
+        chunk(0, ['DSC-21', 'GENERAL'], 'Packs supply air.'),
+        chunk(1, ['DSC-21', 'TRIM AIR'], 'Valves open.'),
+        chunk(2, ['DSC-21', 'RAM AIR'], 'Ram air inlet.'),
+      ],
+      [
+        chunk(0, ['DSC-21', 'GENERAL'], 'Packs  supply air.'),
+        chunk(1, ['DSC-21', 'TRIM AIR'], 'Valves modulate.'),
+        chunk(2, ['DSC-21', 'AVIONICS VENTILATION'], 'Fans run.'),
+      ],
+    );
+
+    expect(changes.map((change) => [change.key, change.type])).toEqual([
+      ['DSC-21 › GENERAL', 'unchanged'],
+      ['DSC-21 › TRIM AIR', 'modified'],
+      ['DSC-21 › AVIONICS VENTILATION', 'added'],
+      ['DSC-21 › RAM AIR', 'removed'],
+    ]);
+    expect(changes[1].lines).toEqual([
+      { type: 'removed', text: 'Valves open.' },
+      { type: 'added', text: 'Valves modulate.' },
+    ]);
+  });
+
+  it('pairs a section that moved but kept its title', () => {
+    const [change] = diffRevisions(
+      [chunk(0, ['DSC-21-10', 'TRIM AIR'], 'Valves open.', 3)],
+      [chunk(0, ['DSC-21-20', 'TRIM AIR'], 'Valves open.', 5)],
+    );
+
+    expect(change).toMatchObject({
+      type: 'modified',
+      path: ['DSC-21-20', 'TRIM AIR'],
+      previousPath: ['DSC-21-10', 'TRIM AIR'],
+      oldPage: 3,
+      newPage: 5,
+      lines: [],
+    });
+  });
+});
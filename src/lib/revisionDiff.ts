@@ -0,0 +1,170 @@
+// Section-level comparison between two revisions of the same manual.
+
+export interface RevisionChunk {
+  chunk_index: number;
+  content: string;
+  page_number: number | null;
+  section_title: string | null;
+  section_path: string[] | null;
+}
+
+export type SectionChangeType = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'same';
+  text: string;
+}
+
+export interface SectionChange {
+  key: string;
+  type: SectionChangeType;
+  // Section path in the newer revision (older one for removed sections)
+  path: string[];
+  // Set when a section kept its title but moved to a different place in the manual
+  previousPath?: string[];
+  oldPage: number | null;
+  newPage: number | null;
+  lines: DiffLine[];
+}
+
+interface Section {
+  key: string;
+  title: string;
+  path: string[];
+  page: number | null;
+  text: string;
+}
+
+// Line diffs above this size are shown as a full replacement instead
+const MAX_DIFF_CELLS = 250_000;
+
+const UNTITLED_SECTION = 'Untitled section';
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const groupIntoSections = (chunks: RevisionChunk[]): Map<string, Section> => {
+  const sections = new Map<string, Section>();
+
+  for (const chunk of [...chunks].sort((a, b) => a.chunk_index - b.chunk_index)) {
+    const path = chunk.section_path?.length
+      ? chunk.section_path
+      : [chunk.section_title || UNTITLED_SECTION];
+    const key = path.join(' › ');
+    const existing = sections.get(key);
+
+    if (existing) {
+      existing.text += `\n${chunk.content}`;
+    } else {
+      sections.set(key, {
+        key,
+        title: path[path.length - 1],
+        path,
+        page: chunk.page_number,
+        text: chunk.content,
+      });
+    }
+  }
+
+  return sections;
+};
+
+// Longest-common-subsequence diff over lines
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n').map((line) => line.trim()).filter(Boolean);
+  const newLines = newText.split('\n').map((line) => line.trim()).filter(Boolean);
+
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [
+      ...oldLines.map((text) => ({ type: 'removed' as const, text })),
+      ...newLines.map((text) => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      lines.push({ type: 'same', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      lines.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < oldLines.length) lines.push({ type: 'removed', text: oldLines[i++] });
+  while (j < newLines.length) lines.push({ type: 'added', text: newLines[j++] });
+
+  return lines;
+};
+
+const compareSections = (oldSection: Section, newSection: Section): SectionChange => {
+  const unchanged = normalize(oldSection.text) === normalize(newSection.text);
+  const moved = oldSection.key !== newSection.key;
+
+  return {
+    key: newSection.key,
+    type: unchanged && !moved ? 'unchanged' : 'modified',
+    path: newSection.path,
+    previousPath: moved ? oldSection.path : undefined,
+    oldPage: oldSection.page,
+    newPage: newSection.page,
+    lines: unchanged ? [] : diffLines(oldSection.text, newSection.text),
+  };
+};
+
+// Aligns sections by their full path, then pairs leftovers that kept their
+// title but moved (e.g. renumbered), and reports the rest as added or removed.
+// Results follow the newer revision's order, with removed sections last.
+export const diffRevisions = (oldChunks: RevisionChunk[], newChunks: RevisionChunk[]): SectionChange[] => {
+  const oldSections = groupIntoSections(oldChunks);
+  const newSections = groupIntoSections(newChunks);
+  const unmatchedOld = new Map([...oldSections].filter(([key]) => !newSections.has(key)));
+  const changes: SectionChange[] = [];
+
+  for (const newSection of newSections.values()) {
+    let oldSection = oldSections.get(newSection.key);
+
+    if (!oldSection) {
+      oldSection = [...unmatchedOld.values()].find((candidate) =>
+        candidate.title === newSection.title && candidate.title !== UNTITLED_SECTION
+      );
+      if (oldSection) unmatchedOld.delete(oldSection.key);
+    }
+
+    changes.push(oldSection
+      ? compareSections(oldSection, newSection)
+      : {
+        key: newSection.key,
+        type: 'added',
+        path: newSection.path,
+        oldPage: null,
+        newPage: newSection.page,
+        lines: diffLines('', newSection.text),
+      });
+  }
+
+  for (const oldSection of unmatchedOld.values()) {
+    changes.push({
+      key: oldSection.key,
+      type: 'removed',
+      path: oldSection.path,
+      oldPage: oldSection.page,
+      newPage: null,
+      lines: diffLines(oldSection.text, ''),
+    });
+  }
+
+  return changes;
+};
@@ -0,0 +1,56 @@
+// What a chat question is searched against, chosen in the scope picker and
+// saved with each message so a reopened conversation shows what was searched.
+
+export interface ScopedDocument {
+  id: string;
+  title: string;
+  revisionNumber: number;
+  isCurrent: boolean;
+}
+
+export interface SearchScope {
+  // Empty means every type, including OTHER
+  documentTypes: string[];
+  // Empty means every document; titles are kept so the scope can be described later
+  documents: ScopedDocument[];
+  // Also search revisions that a newer one has replaced
+  includeSuperseded: boolean;
+}
+
+export const DEFAULT_SEARCH_SCOPE: SearchScope = {
+  documentTypes: [],
+  documents: [],
+  includeSuperseded: false,
+};
+
+// Listed by name up to this many documents, counted beyond it
+const MAX_NAMED_DOCUMENTS = 2;
+
+export const isDefaultScope = (scope: SearchScope) =>
+  scope.documentTypes.length === 0 && scope.documents.length === 0 && !scope.includeSuperseded;
+
+// Short label for the picker button and messages, e.g. "QRH • A321 FCOM (Rev 3)"
+export const describeScope = (scope: SearchScope): string => {
+  const parts: string[] = [];
+
+  if (scope.documentTypes.length > 0) {
+    parts.push(scope.documentTypes.join(', '));
+  }
+  if (scope.documents.length > MAX_NAMED_DOCUMENTS) {
+    parts.push(`${scope.documents.length} documents`);
+  } else if (scope.documents.length > 0) {
+    parts.push(scope.documents.map((document) => `${document.title} (Rev ${document.revisionNumber})`).join(', '));
+  }
+  if (scope.includeSuperseded) {
+    parts.push('incl. superseded revisions');
+  }
+
+  return parts.length > 0 ? parts.join(' • ') : 'All manuals';
+};
+
+// Request fields for search-documents
+export const scopeSearchParams = (scope: SearchScope) => ({
+  documentTypes: scope.documentTypes,
+  documentIds: scope.documents.map((document) => document.id),
+  includeSuperseded: scope.includeSuperseded,
+});
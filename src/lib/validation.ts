@@ -41,6 +41,16 @@ export const fileUploadSchema = z.object({
   documentType: z.enum(['FCOM', 'QRH', 'FCTM', 'MEL', 'AFM', 'OTHER'], {
     errorMap: () => ({ message: 'Please select a valid document type' }),
   }),
+  revisionNumber: z
+    .number({ invalid_type_error: 'Revision must be a number' })
+    .int('Revision must be a whole number')
+    .min(1, 'Revision must be at least 1')
+    .max(9999, 'Revision number is too large'),
+  effectiveDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Please enter a valid date')
+    .optional()
+    .or(z.literal('')),
 });
 
 // Chat input validation
@@ -53,8 +63,13 @@ export const chatInputSchema = z
 // File validation constants
 export const FILE_VALIDATION = {
   MAX_SIZE: 50 * 1024 * 1024, // 50MB
-  ALLOWED_TYPES: ['application/pdf'],
-  ALLOWED_EXTENSIONS: ['.pdf'],
+  ALLOWED_TYPES: [
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/html',
+    'text/plain',
+  ],
+  ALLOWED_EXTENSIONS: ['.pdf', '.docx', '.html', '.htm', '.txt'],
 } as const;
 
 // Sanitization utilities
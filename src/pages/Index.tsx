@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { Navigate, Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
 import { FlightPhaseSelector } from "@/components/FlightPhaseSelector";
 import { ChatInterface } from "@/components/ChatInterface";
 import { DocumentUpload } from "@/components/DocumentUpload";
@@ -11,6 +12,7 @@ import { WeatherInfo } from "@/components/WeatherInfo";
 import { SystemStatus } from "@/components/SystemStatus";
 import { FuelEfficiencyDashboard } from "@/components/FuelEfficiencyDashboard";
 import { ProceduresPanel } from "@/components/ProceduresPanel";
+import { AuditLogReview } from "@/components/AuditLogReview";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -18,6 +20,7 @@ import { LogOut, MessageSquare, Upload, AlertTriangle, Calculator, Cloud, Cpu, F
 
 const Index = () => {
   const { user, loading, signOut } = useAuth();
+  const { isReviewer } = useOrganization();
   const [selectedPhase, setSelectedPhase] = useState<string>("preflight");
 
   if (loading) {
@@ -96,10 +99,11 @@ const Index = () => {
               
               <TabsContent value="chat" className="mt-4">
                 <Tabs defaultValue="assistant" className="w-full">
-                  <TabsList className="grid w-full grid-cols-3">
+                  <TabsList className={`grid w-full ${isReviewer ? 'grid-cols-4' : 'grid-cols-3'}`}>
                     <TabsTrigger value="assistant">Assistant</TabsTrigger>
                     <TabsTrigger value="documents">Documents</TabsTrigger>
                     <TabsTrigger value="fuel">Eco Dashboard</TabsTrigger>
+                    {isReviewer && <TabsTrigger value="audit">Audit</TabsTrigger>}
                   </TabsList>
                   
                   <TabsContent value="assistant" className="mt-4">
@@ -113,6 +117,12 @@ const Index = () => {
                   <TabsContent value="fuel" className="mt-4">
                     <FuelEfficiencyDashboard />
                   </TabsContent>
+
+                  {isReviewer && (
+                    <TabsContent value="audit" className="mt-4">
+                      <AuditLogReview />
+                    </TabsContent>
+                  )}
                 </Tabs>
               </TabsContent>
               
@@ -0,0 +1,252 @@
+// Retrieval evaluation: ingests the fixture manual into a local Supabase stack
+// through process-pdf, asks every question in the golden set through
+// search-documents and answer-question, and reports recall@k, MRR and citation
+// accuracy. Exits non-zero when a metric falls below the golden set's thresholds.
+//
+// Usage:
+//   supabase start
+//   supabase functions serve --env-file supabase/evaluation/functions.env
+//   SUPABASE_ANON_KEY=... SUPABASE_SERVICE_ROLE_KEY=... npm run eval -- [--k 5] [--mode hybrid] [--no-rerank] [--out report.json]
+//
+// The keys are printed by `supabase status`. functions.env selects the offline
+// embedding and answer providers, so no OpenAI key is needed and runs are repeatable.
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+import { parse } from 'https://deno.land/std@0.168.0/flags/mod.ts';
+
+interface ExpectedReference {
+  // Case-insensitive substring of the chunk's own section title
+  section: string;
+  page?: number;
+}
+
+interface GoldenQuestion {
+  question: string;
+  expected: ExpectedReference[];
+}
+
+interface GoldenSet {
+  manual: {
+    title: string;
+    fileName: string;
+    documentType: string;
+  };
+  thresholds: {
+    recallAtK: number;
+    mrr: number;
+    citationAccuracy: number;
+  };
+  questions: GoldenQuestion[];
+}
+
+interface SearchResult {
+  id: string;
+  content: string;
+  page_number: number | null;
+  section_title: string | null;
+  similarity: number | null;
+}
+
+interface QuestionResult {
+  question: string;
+  // 1-based rank of the first relevant result, null when none was returned
+  firstRelevantRank: number | null;
+  citations: number[];
+  relevantCitations: number;
+  refused: boolean;
+}
+
+const EVALUATION_EMAIL = 'evaluation@flight-buddy.local';
+const EVALUATION_PASSWORD = 'evaluation-only-password';
+// process-pdf stops after its time budget; re-invoke at most this many times
+const MAX_INGESTION_CALLS = 20;
+
+const args = parse(Deno.args, {
+  string: ['k', 'mode', 'out'],
+  boolean: ['rerank'],
+  default: { k: '5', mode: 'hybrid', rerank: true },
+});
+const k = Number(args.k);
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || 'http://127.0.0.1:54321';
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!anonKey || !serviceKey) {
+  console.error('Set SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY (see `supabase status`)');
+  Deno.exit(2);
+}
+
+const isRelevant = (result: SearchResult, expected: ExpectedReference[]): boolean =>
+  expected.some((reference) =>
+    (result.section_title ?? '').toLowerCase().includes(reference.section.toLowerCase())
+    && (reference.page === undefined || result.page_number === reference.page)
+  );
+
+// "--- page N ---" lines split the fixture into pages
+const loadFixturePages = async (fileName: string) => {
+  const text = await Deno.readTextFile(new URL(`./fixtures/${fileName}`, import.meta.url));
+  const parts = text.split(/^--- page (\d+) ---$/m).slice(1);
+  const pages = [];
+  for (let index = 0; index < parts.length; index += 2) {
+    pages.push({ pageNumber: Number(parts[index]), label: null, text: parts[index + 1].trim() });
+  }
+  return pages;
+};
+
+const callFunction = async (name: string, token: string, body: unknown) => {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'apikey': anonKey,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${name} failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+};
+
+// Signs in as a dedicated evaluation user, so RLS applies as it does for crews
+const signIn = async (admin: SupabaseClient) => {
+  const { error: createError } = await admin.auth.admin.createUser({
+    email: EVALUATION_EMAIL,
+    password: EVALUATION_PASSWORD,
+    email_confirm: true,
+  });
+  if (createError && !/already/i.test(createError.message)) {
+    throw new Error(`Failed to create evaluation user: ${createError.message}`);
+  }
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data, error } = await client.auth.signInWithPassword({
+    email: EVALUATION_EMAIL,
+    password: EVALUATION_PASSWORD,
+  });
+  if (error || !data.session) {
+    throw new Error(`Failed to sign in as the evaluation user: ${error?.message}`);
+  }
+
+  return { userId: data.user.id, token: data.session.access_token };
+};
+
+// Replaces any earlier copy of the fixture so each run starts from the current chunker
+const ingestFixture = async (admin: SupabaseClient, userId: string, goldenSet: GoldenSet) => {
+  const { manual } = goldenSet;
+  const pages = await loadFixturePages(manual.fileName);
+
+  await admin.from('documents').delete().eq('user_id', userId).eq('title', manual.title);
+
+  const { data: document, error } = await admin
+    .from('documents')
+    .insert({
+      user_id: userId,
+      title: manual.title,
+      file_name: manual.fileName,
+      file_path: `${userId}/evaluation/${manual.fileName}`,
+      document_type: manual.documentType,
+      processing_status: 'queued',
+      page_count: pages.length,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create the fixture document: ${error.message}`);
+  }
+
+  for (let call = 0; call < MAX_INGESTION_CALLS; call++) {
+    const result = await callFunction('process-pdf', serviceKey, { documentId: document.id, pages });
+    if (result.completed) {
+      console.log(`Ingested ${manual.title}: ${pages.length} pages, ${result.totalChunks} chunks`);
+      return;
+    }
+  }
+
+  throw new Error('Fixture ingestion did not complete');
+};
+
+const evaluateQuestion = async (token: string, golden: GoldenQuestion): Promise<QuestionResult> => {
+  const search = await callFunction('search-documents', token, {
+    query: golden.question,
+    limit: k,
+    mode: args.mode,
+    rerank: args.rerank,
+  });
+  const results: SearchResult[] = search.results || [];
+
+  const rankIndex = results.findIndex((result) => isRelevant(result, golden.expected));
+
+  const answer = await callFunction('answer-question', token, {
+    retrievalId: search.retrievalId,
+  });
+  const citations: number[] = answer.citations || [];
+
+  return {
+    question: golden.question,
+    firstRelevantRank: rankIndex >= 0 ? rankIndex + 1 : null,
+    citations,
+    relevantCitations: citations.filter((marker) => {
+      const cited = results[marker - 1];
+      return cited && isRelevant(cited, golden.expected);
+    }).length,
+    refused: answer.refused,
+  };
+};
+
+const mean = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const formatRatio = (value: number) => value.toFixed(3);
+
+const goldenSet: GoldenSet = JSON.parse(
+  await Deno.readTextFile(new URL('./golden-set.json', import.meta.url)),
+);
+
+const admin = createClient(supabaseUrl, serviceKey);
+const { userId, token } = await signIn(admin);
+await ingestFixture(admin, userId, goldenSet);
+
+const results: QuestionResult[] = [];
+for (const golden of goldenSet.questions) {
+  results.push(await evaluateQuestion(token, golden));
+}
+
+// recall@k: a relevant chunk is among the top k. MRR: mean of 1 / rank of the
+// first relevant chunk. Citation accuracy: share of the answer's citations
+// that point at a relevant chunk (a refusal scores 0).
+const metrics = {
+  recallAtK: mean(results.map((result) => result.firstRelevantRank !== null ? 1 : 0)),
+  mrr: mean(results.map((result) => result.firstRelevantRank ? 1 / result.firstRelevantRank : 0)),
+  citationAccuracy: mean(results.map((result) =>
+    result.citations.length ? result.relevantCitations / result.citations.length : 0
+  )),
+};
+
+for (const result of results) {
+  const rank = result.firstRelevantRank ?? '-';
+  const citations = result.refused ? 'refused' : `${result.relevantCitations}/${result.citations.length} cited relevant`;
+  console.log(`rank ${String(rank).padStart(2)}  ${citations.padEnd(22)}  ${result.question}`);
+}
+
+console.log('');
+console.log(`Questions:          ${results.length} (k = ${k}, mode = ${args.mode}, rerank = ${args.rerank})`);
+console.log(`Recall@${k}:           ${formatRatio(metrics.recallAtK)} (threshold ${goldenSet.thresholds.recallAtK})`);
+console.log(`MRR:                ${formatRatio(metrics.mrr)} (threshold ${goldenSet.thresholds.mrr})`);
+console.log(`Citation accuracy:  ${formatRatio(metrics.citationAccuracy)} (threshold ${goldenSet.thresholds.citationAccuracy})`);
+
+if (args.out) {
+  await Deno.writeTextFile(args.out, JSON.stringify({ k, mode: args.mode, rerank: args.rerank, metrics, results }, null, 2));
+  console.log(`Report written to ${args.out}`);
+}
+
+const failed = (Object.keys(metrics) as (keyof typeof metrics)[])
+  .filter((metric) => metrics[metric] < goldenSet.thresholds[metric]);
+
+if (failed.length > 0) {
+  console.error(`Below threshold: ${failed.join(', ')}`);
+  Deno.exit(1);
+}
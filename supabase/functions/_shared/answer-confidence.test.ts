@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { assessConfidence, groundingRatio } from './answer-confidence.ts';
+
+const groundedAnswer = [
+  'Set the ENG MASTER switch to OFF [1].',
+  'Push the ENG FIRE pushbutton [1].',
+  'Discharge agent 1 after 10 seconds [2].',
+].join('\n');
+
+describe('groundingRatio', () => {
+  it('is the share of statements that cite a passage', () => {
+    expect(groundingRatio('Set the switch to OFF [1].\nWait for the fire to go out.')).toBe(0.5);
+  });
+
+  it('does not count short lines as statements', () => {
+    expect(groundingRatio('Steps:\nSet the switch to OFF [1].')).toBe(1);
+  });
+});
+
+describe('assessConfidence', () => {
+  it('is high for a fully cited answer from closely matching passages', () => {
+    expect(assessConfidence(groundedAnswer, [1, 2], [{ similarity: 0.8 }, { similarity: 0.5 }])).toBe('high');
+  });
+
+  it('is low when the best cited passage is a weak match', () => {
+    expect(assessConfidence(groundedAnswer, [1, 2], [{ similarity: 0.35 }, { similarity: 0.3 }])).toBe('low');
+  });
+
+  it('is low when most of the answer is uncited', () => {
+    const answer = 'Set the ENG MASTER switch to OFF [1].\nThen land at the nearest airport.\nInform the cabin crew promptly.';
+    expect(assessConfidence(answer, [1], [{ similarity: 0.9 }])).toBe('low');
+  });
+
+  it('never rates keyword-only matches above medium', () => {
+    expect(assessConfidence(groundedAnswer, [1, 2], [{ similarity: null }, {}])).toBe('medium');
+  });
+});
@@ -0,0 +1,55 @@
+// Confidence shown with each grounded answer, from two signals:
+//   - retrieval: how similar the best cited passage is to the question
+//   - grounding: how much of the answer carries a citation marker
+// Refused answers have no confidence level; they are labelled "not found".
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+// Cosine similarity of the best cited passage
+const HIGH_SIMILARITY = 0.6;
+const LOW_SIMILARITY = 0.4;
+// Share of answer statements that cite a passage
+const HIGH_GROUNDING = 0.8;
+const LOW_GROUNDING = 0.5;
+// Lines shorter than this ("Steps:", "Note") are not statements
+const MIN_STATEMENT_WORDS = 3;
+
+export interface CitedPassage {
+  similarity?: number | null;
+}
+
+// Share of the answer's statements (lines) that cite at least one passage
+export const groundingRatio = (answer: string): number => {
+  const statements = answer
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.split(/\s+/).length >= MIN_STATEMENT_WORDS);
+
+  if (statements.length === 0) {
+    return 0;
+  }
+
+  return statements.filter((statement) => /\[\d+\]/.test(statement)).length / statements.length;
+};
+
+// passages[N - 1] is the passage behind citation marker N
+export const assessConfidence = (
+  answer: string,
+  citations: number[],
+  passages: CitedPassage[],
+): ConfidenceLevel => {
+  const similarities = citations
+    .map((marker) => passages[marker - 1]?.similarity)
+    .filter((similarity): similarity is number => typeof similarity === 'number');
+  // Keyword-only matches have no similarity: never rate those above medium
+  const retrieval = similarities.length > 0 ? Math.max(...similarities) : null;
+  const grounding = groundingRatio(answer);
+
+  if (grounding < LOW_GROUNDING || (retrieval !== null && retrieval < LOW_SIMILARITY)) {
+    return 'low';
+  }
+  if (grounding >= HIGH_GROUNDING && retrieval !== null && retrieval >= HIGH_SIMILARITY) {
+    return 'high';
+  }
+  return 'medium';
+};
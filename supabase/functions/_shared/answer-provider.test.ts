@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { extractCitations, type AnswerPassage } from './answer-provider.ts';
+
+const passage = (marker: number): AnswerPassage => ({
+  marker,
+  content: 'Set the ENG MASTER switch to OFF.',
+  documentTitle: 'A321 QRH',
+  sectionTitle: null,
+  pageNumber: 1,
+  pageLabel: null,
+});
+
+describe('extractCitations', () => {
+  it('returns each cited marker once, in order', () => {
+    const passages = [passage(1), passage(2), passage(3)];
+
+    expect(extractCitations('Turn it off [3]. Then confirm [1][3].', passages)).toEqual([1, 3]);
+  });
+
+  it('ignores markers that refer to no supplied passage', () => {
+    // Marker 2 was retrieved but left out of the prompt
+    const passages = [passage(1), passage(3)];
+
+    expect(extractCitations('See [2] and [3], not [9].', passages)).toEqual([3]);
+  });
+
+  it('returns nothing for an uncited answer', () => {
+    expect(extractCitations('No markers here.', [passage(1)])).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+// Answer generation providers for the answer-question function.
+// Select one with the ANSWER_PROVIDER env var ('openai' or 'local').
+
+import type { ConversationTurn } from './conversation.ts';
+
+export interface AnswerPassage {
+  // 1-based marker the answer uses to cite this passage, e.g. [1]
+  marker: number;
+  content: string;
+  documentTitle: string;
+  sectionTitle: string | null;
+  pageNumber: number | null;
+  pageLabel: string | null;
+}
+
+export interface AnswerRequest {
+  query: string;
+  phase: string | null;
+  passages: AnswerPassage[];
+  // Bounded window of earlier turns, oldest first
+  history?: ConversationTurn[];
+}
+
+export interface AnswerProvider {
+  name: string;
+  generate(request: AnswerRequest): Promise<string>;
+  // Same answer as generate, yielded piece by piece as it is produced
+  stream(request: AnswerRequest, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+// Sentinel the model returns when the passages do not answer the question
+export const NOT_FOUND_SENTINEL = 'NOT_FOUND_IN_MANUALS';
+
+const SYSTEM_PROMPT = `You are a flight operations assistant for Airbus A321 crews.
+Answer ONLY from the numbered manual passages you are given.
+Cite every statement with the passage marker it came from, e.g. [1] or [2][3].
+Keep procedure steps in the order and wording of the manual.
+Do not add information that is not in the passages.
+Earlier conversation turns only tell you what the question refers to; they are not a source.
+If the passages do not contain the answer, reply with exactly ${NOT_FOUND_SENTINEL}.`;
+
+export const buildPassageContext = (passages: AnswerPassage[]): string => {
+  return passages
+    .map((passage) => {
+      const location = [
+        passage.documentTitle,
+        passage.sectionTitle,
+        passage.pageNumber ? `p.${passage.pageNumber}` : null,
+        passage.pageLabel,
+      ].filter(Boolean).join(' • ');
+      return `[${passage.marker}] (${location})\n${passage.content}`;
+    })
+    .join('\n\n');
+};
+
+export const buildUserPrompt = (request: AnswerRequest): string => {
+  const phaseLine = request.phase ? `Current flight phase: ${request.phase}\n\n` : '';
+  return `${phaseLine}Manual passages:\n\n${buildPassageContext(request.passages)}\n\nQuestion: ${request.query}`;
+};
+
+export class OpenAIAnswerProvider implements AnswerProvider {
+  name = 'openai';
+
+  constructor(
+    private apiKey: string,
+    private model = 'gpt-4o-mini',
+  ) {}
+
+  private async complete(request: AnswerRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        stream,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          // Earlier turns only give the question context; the passages below remain the sole source
+          ...(request.history || []).map((turn) => ({ role: turn.role, content: turn.content })),
+          { role: 'user', content: buildUserPrompt(request) },
+        ],
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Answer generation failed: ${response.status} ${errorText}`);
+    }
+
+    return response;
+  }
+
+  async generate(request: AnswerRequest): Promise<string> {
+    const response = await this.complete(request, false);
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string') {
+      throw new Error('Invalid answer generation response');
+    }
+
+    return content.trim();
+  }
+
+  async *stream(request: AnswerRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await this.complete(request, true, signal);
+    if (!response.body) {
+      throw new Error('Invalid answer generation response');
+    }
+
+    // Server-sent events: one "data: {...}" line per delta, then "data: [DONE]"
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+}
+
+const tokenize = (text: string): string[] => {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+};
+
+// Deterministic extractive stand-in: picks the passage sentences sharing
+// the most terms with the question. Needs no network, so it is used in tests.
+export class LocalAnswerProvider implements AnswerProvider {
+  name = 'local';
+
+  constructor(private maxSentences = 3) {}
+
+  async generate(request: AnswerRequest): Promise<string> {
+    const queryTerms = new Set(tokenize(request.query).filter((term) => term.length > 2));
+
+    const scored = request.passages.flatMap((passage) =>
+      passage.content
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map((sentence) => sentence.trim())
+        .filter((sentence) => sentence.length > 0)
+        .map((sentence, position) => ({
+          sentence,
+          marker: passage.marker,
+          position,
+          score: tokenize(sentence).filter((term) => queryTerms.has(term)).length,
+        }))
+    );
+
+    const best = scored
+      .filter((candidate) => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || a.marker - b.marker || a.position - b.position)
+      .slice(0, this.maxSentences)
+      .sort((a, b) => a.marker - b.marker || a.position - b.position);
+
+    if (best.length === 0) {
+      return NOT_FOUND_SENTINEL;
+    }
+
+    return best.map((candidate) => `${candidate.sentence} [${candidate.marker}]`).join('\n');
+  }
+
+  async *stream(request: AnswerRequest): AsyncGenerator<string> {
+    const answer = await this.generate(request);
+    for (const [index, line] of answer.split('\n').entries()) {
+      yield index === 0 ? line : `\n${line}`;
+    }
+  }
+}
+
+export const createAnswerProvider = (): AnswerProvider => {
+  const providerName = Deno.env.get('ANSWER_PROVIDER') || 'openai';
+
+  switch (providerName) {
+    case 'local':
+      return new LocalAnswerProvider();
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('Missing OpenAI API key');
+      }
+      return new OpenAIAnswerProvider(apiKey, Deno.env.get('ANSWER_MODEL') || undefined);
+    }
+    default:
+      throw new Error(`Unknown answer provider: ${providerName}`);
+  }
+};
+
+// Marker numbers cited in an answer that refer to a passage we supplied.
+// Markers follow the chunk order shown to the user, which has gaps where
+// chunks were left out of the prompt, so they are checked against the
+// passages themselves rather than a count.
+export const extractCitations = (answer: string, passages: AnswerPassage[]): number[] => {
+  const passageMarkers = new Set(passages.map((passage) => passage.marker));
+  const markers = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const marker = parseInt(match[1]);
+    if (passageMarkers.has(marker)) {
+      markers.add(marker);
+    }
+  }
+  return [...markers].sort((a, b) => a - b);
+};
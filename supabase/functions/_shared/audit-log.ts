@@ -0,0 +1,152 @@
+// Compliance audit trail, written with the service key because crews cannot
+// insert into the tables themselves. search-documents records each retrieval
+// in answer_retrievals before returning results; answer-question answers
+// only from a recorded retrieval and adds one answer_audit_log row per
+// question. Recording a retrieval is required (nothing can be answered
+// without it); recording the answer is best-effort: a failed write is logged
+// and never keeps an answer from the crew.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+
+export type AuditOutcome = 'answered' | 'not_found' | 'stopped' | 'failed';
+
+// Retrieval fields kept for each chunk; search-documents sets the scores
+export interface AuditedChunk {
+  id: string;
+  document_id?: string;
+  document_title?: string;
+  page_number?: number | null;
+  similarity?: number | null;
+  keyword_rank?: number | null;
+  retrieval_score?: number | null;
+  rerank_score?: number | null;
+}
+
+export interface RetrievalEntry {
+  query: string;
+  phase: string | null;
+  conversationId: string | null;
+  chunks: AuditedChunk[];
+}
+
+export interface Retrieval extends RetrievalEntry {
+  id: string;
+  userId: string;
+  organizationId: string | null;
+}
+
+// Audit log fields that depend on how the question ended
+export interface AnswerResult {
+  answer: string;
+  citations: number[];
+  confidence: string | null;
+  outcome: AuditOutcome;
+  provider: string | null;
+}
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const serviceClient = () => createClient(supabaseUrl, supabaseServiceKey);
+
+// The user comes from the caller's token, never from the request body
+const callerId = async (authToken: string | undefined): Promise<string> => {
+  const { data: { user }, error } = await serviceClient().auth.getUser(authToken);
+  if (error || !user) {
+    throw new Error(`Unknown caller: ${error?.message}`);
+  }
+  return user.id;
+};
+
+export const recordRetrieval = async (authToken: string | undefined, entry: RetrievalEntry): Promise<string> => {
+  const supabase = serviceClient();
+  const userId = await callerId(authToken);
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('answer_retrievals')
+    .insert({
+      user_id: userId,
+      organization_id: membership?.organization_id ?? null,
+      conversation_id: entry.conversationId,
+      query: entry.query,
+      flight_phase: entry.phase,
+      retrieved_chunks: entry.chunks.map((chunk) => ({
+        id: chunk.id,
+        document_id: chunk.document_id ?? null,
+        document_title: chunk.document_title ?? null,
+        page_number: chunk.page_number ?? null,
+        similarity: chunk.similarity ?? null,
+        keyword_rank: chunk.keyword_rank ?? null,
+        retrieval_score: chunk.retrieval_score ?? null,
+        rerank_score: chunk.rerank_score ?? null,
+      })),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record retrieval: ${error.message}`);
+  }
+
+  return data.id;
+};
+
+// The caller's own retrieval, or null if it does not exist or is someone else's
+export const loadRetrieval = async (authToken: string | undefined, retrievalId: string): Promise<Retrieval | null> => {
+  const userId = await callerId(authToken);
+
+  const { data, error } = await serviceClient()
+    .from('answer_retrievals')
+    .select('id, user_id, organization_id, conversation_id, query, flight_phase, retrieved_chunks')
+    .eq('id', retrievalId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load retrieval: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    userId: data.user_id,
+    organizationId: data.organization_id,
+    conversationId: data.conversation_id,
+    query: data.query,
+    phase: data.flight_phase,
+    chunks: data.retrieved_chunks as AuditedChunk[],
+  };
+};
+
+export const recordAnswer = async (retrieval: Retrieval, result: AnswerResult): Promise<void> => {
+  try {
+    const { error } = await serviceClient().from('answer_audit_log').insert({
+      retrieval_id: retrieval.id,
+      user_id: retrieval.userId,
+      organization_id: retrieval.organizationId,
+      conversation_id: retrieval.conversationId,
+      query: retrieval.query,
+      flight_phase: retrieval.phase,
+      retrieved_chunks: retrieval.chunks,
+      answer: result.answer,
+      citations: result.citations,
+      confidence: result.confidence,
+      outcome: result.outcome,
+      provider: result.provider,
+    });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error('Failed to record the answer in the audit log:', error);
+  }
+};
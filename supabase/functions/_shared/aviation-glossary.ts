@@ -0,0 +1,195 @@
+// Abbreviation and synonym dictionary for search-documents. Pilots type
+// "eng fail v1" or "dual hyd lo pr"; the manuals spell out "ENGINE FAILURE",
+// "HYD G+Y SYS LO PR" or "decision speed". Each term found in a query adds its
+// expansions to the text searched, so both spellings retrieve the same
+// passages. Organisations can add their own terms or override these ones (see
+// the organization_glossary_terms table); an override with no expansions
+// switches a built-in term off.
+
+// Lower-case term → expansions, as typed and as written in the manuals
+export type Glossary = Map<string, string[]>;
+
+export interface GlossaryEntry {
+  term: string;
+  expansions: string[];
+}
+
+export interface QueryExpansion {
+  // The query followed by every expansion it did not already contain
+  expandedQuery: string;
+  // The added expansions, in query order, for "also searched for..."
+  expansions: string[];
+}
+
+const A320_FAMILY_GLOSSARY: [string, string[]][] = [
+  // Systems and general abbreviations
+  ['eng', ['engine']],
+  ['engs', ['engines']],
+  ['fail', ['failure']],
+  ['hyd', ['hydraulic']],
+  ['lo pr', ['low pressure']],
+  ['hi temp', ['high temperature']],
+  ['ovht', ['overheat']],
+  ['apu', ['auxiliary power unit']],
+  ['apu bleed', ['apu bleed air', 'auxiliary power unit bleed']],
+  ['xbleed', ['crossbleed']],
+  ['bleed', ['pneumatic']],
+  ['pack', ['air conditioning pack']],
+  ['press', ['pressurization']],
+  ['cab press', ['cabin pressurization']],
+  ['elec', ['electrical']],
+  ['gen', ['generator']],
+  ['idg', ['integrated drive generator']],
+  ['emer gen', ['emergency generator']],
+  ['rat', ['ram air turbine']],
+  ['ptu', ['power transfer unit']],
+  ['wai', ['wing anti ice']],
+  ['eai', ['engine anti ice']],
+  ['avncs', ['avionics']],
+  ['smk', ['smoke']],
+  ['l/g', ['landing gear']],
+  ['ldg', ['landing']],
+  ['ldg gear', ['landing gear']],
+  ['t/o', ['takeoff']],
+  ['tkof', ['takeoff']],
+  ['to/ga', ['toga']],
+  ['toga', ['takeoff go around thrust']],
+  ['ga', ['go-around']],
+  ['flx', ['flexible takeoff thrust']],
+  ['mct', ['maximum continuous thrust']],
+  ['thr', ['thrust']],
+  ['rev', ['reverser']],
+  ['oei', ['one engine inoperative']],
+  ['sys', ['system']],
+  ['pr', ['pressure']],
+  ['temp', ['temperature']],
+  ['qty', ['quantity']],
+  ['imbal', ['imbalance']],
+  ['ctl', ['control']],
+  ['f/ctl', ['flight controls']],
+  ['alt', ['altitude', 'alternate']],
+  ['wx', ['weather']],
+  ['xfr', ['transfer']],
+  ['man', ['manual']],
+  ['norm', ['normal']],
+  ['emer', ['emergency']],
+  ['abn', ['abnormal']],
+  ['tcas', ['traffic collision avoidance system']],
+  ['egpws', ['enhanced ground proximity warning system']],
+  ['gpws', ['ground proximity warning system']],
+  ['ils', ['instrument landing system']],
+  ['loc', ['localizer']],
+  ['g/s', ['glide slope']],
+  ['gs', ['glide slope', 'ground speed']],
+  ['ra', ['resolution advisory', 'radio altitude']],
+
+  // Cockpit equipment and computers
+  ['fcu', ['flight control unit']],
+  ['mcdu', ['multipurpose control and display unit']],
+  ['fma', ['flight mode annunciator']],
+  ['pfd', ['primary flight display']],
+  ['nd', ['navigation display']],
+  ['ecam', ['electronic centralized aircraft monitoring']],
+  ['ewd', ['engine warning display']],
+  ['sd', ['system display']],
+  ['adirs', ['air data inertial reference system']],
+  ['adr', ['air data reference']],
+  ['ir', ['inertial reference']],
+  ['elac', ['elevator aileron computer']],
+  ['sec', ['spoiler elevator computer']],
+  ['fac', ['flight augmentation computer']],
+  ['fmgc', ['flight management guidance computer']],
+  ['fadec', ['full authority digital engine control']],
+  ['bscu', ['brake steering control unit']],
+  ['lgciu', ['landing gear control interface unit']],
+  ['a/thr', ['autothrust']],
+  ['ap', ['autopilot']],
+  ['fd', ['flight director']],
+
+  // Speeds and configurations
+  ['v1', ['decision speed']],
+  ['vr', ['rotation speed']],
+  ['v2', ['takeoff safety speed']],
+  ['vapp', ['approach speed']],
+  ['vls', ['lowest selectable speed']],
+  ['vle', ['maximum landing gear extended speed']],
+  ['vlo', ['maximum landing gear operating speed']],
+  ['vfe', ['maximum flap extended speed']],
+  ['vmo', ['maximum operating speed']],
+  ['mmo', ['maximum operating mach']],
+  ['conf 1', ['flaps 1', 'configuration 1']],
+  ['conf 1+f', ['flaps 1', 'configuration 1+f']],
+  ['conf 2', ['flaps 2', 'configuration 2']],
+  ['conf 3', ['flaps 3', 'configuration 3']],
+  ['conf full', ['flaps full', 'configuration full']],
+
+  // ECAM titles, as pilots abbreviate them
+  ['eng fail', ['engine failure', 'eng 1(2) fail']],
+  ['eng fire', ['engine fire', 'eng 1(2) fire']],
+  ['dual eng fail', ['eng dual failure', 'all engines failure']],
+  ['dual hyd', ['hyd g+b sys lo pr', 'hyd g+y sys lo pr', 'hyd b+y sys lo pr']],
+  ['emer elec', ['emer elec config', 'emergency electrical configuration']],
+  ['avncs smk', ['avionics smoke', 'smoke/fumes/avncs smoke']],
+  ['excess cab alt', ['excess cabin altitude']],
+  ['emer descent', ['emergency descent']],
+  ['unrel spd', ['unreliable speed indication', 'unreliable airspeed']],
+  ['stall', ['stall recovery']],
+  ['windshear', ['wind shear']],
+
+  // ATA chapters
+  ['ata 21', ['air conditioning']],
+  ['ata 22', ['auto flight']],
+  ['ata 24', ['electrical power']],
+  ['ata 26', ['fire protection']],
+  ['ata 27', ['flight controls']],
+  ['ata 28', ['fuel']],
+  ['ata 29', ['hydraulic power']],
+  ['ata 30', ['ice and rain protection']],
+  ['ata 31', ['indicating recording systems']],
+  ['ata 32', ['landing gear']],
+  ['ata 34', ['navigation']],
+  ['ata 36', ['pneumatic']],
+  ['ata 49', ['auxiliary power unit']],
+  ['ata 70', ['power plant', 'engines']],
+];
+
+export const normalizeTerm = (term: string) => term.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Built-in terms, then the organisation's entries on top
+export const buildGlossary = (overrides: GlossaryEntry[] = []): Glossary => {
+  const glossary: Glossary = new Map(A320_FAMILY_GLOSSARY);
+  for (const { term, expansions } of overrides) {
+    glossary.set(normalizeTerm(term), expansions.map(normalizeTerm).filter(Boolean));
+  }
+  return glossary;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest terms are matched first and claim their words, so "dual hyd" wins
+// over "hyd" and "apu bleed" over "bleed". Terms match whole words only.
+export const expandQuery = (query: string, glossary: Glossary): QueryExpansion => {
+  let remaining = normalizeTerm(query);
+  const found: { position: number; expansions: string[] }[] = [];
+
+  const terms = [...glossary.keys()].sort((a, b) => b.length - a.length);
+  for (const term of terms) {
+    const pattern = new RegExp(`(?<![a-z0-9])${escapeRegExp(term)}(?![a-z0-9])`);
+    const match = pattern.exec(remaining);
+    if (!match) continue;
+
+    found.push({ position: match.index, expansions: glossary.get(term)! });
+    remaining = remaining.slice(0, match.index) + ' '.repeat(term.length) + remaining.slice(match.index + term.length);
+  }
+
+  const lowerQuery = normalizeTerm(query);
+  const expansions = [...new Set(found
+    .sort((a, b) => a.position - b.position)
+    .flatMap((entry) => entry.expansions))]
+    .filter((expansion) => !lowerQuery.includes(expansion));
+
+  return {
+    expandedQuery: expansions.length ? `${query} ${expansions.join(' ')}` : query,
+    expansions,
+  };
+};
@@ -0,0 +1,26 @@
+// Prior chat turns sent with a question, shared by search-documents (query
+// rewriting) and answer-question (answer context).
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Only the most recent turns are used, each cut to a bounded length, so a
+// long conversation cannot crowd the manual passages out of the prompt
+export const MAX_HISTORY_TURNS = 6;
+export const MAX_TURN_CHARS = 1000;
+
+// Validates client-supplied history and keeps the bounded recent window
+export const recentTurns = (history: unknown): ConversationTurn[] => {
+  if (!Array.isArray(history)) {
+    return [];
+  }
+
+  return history
+    .filter((turn): turn is ConversationTurn =>
+      (turn?.role === 'user' || turn?.role === 'assistant') && typeof turn.content === 'string' && turn.content.trim() !== ''
+    )
+    .slice(-MAX_HISTORY_TURNS)
+    .map((turn) => ({ role: turn.role, content: turn.content.trim().slice(0, MAX_TURN_CHARS) }));
+};
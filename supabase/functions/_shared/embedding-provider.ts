@@ -0,0 +1,120 @@
+// Embedding providers shared by process-pdf and search-documents.
+// Select one with the EMBEDDING_PROVIDER env var ('openai' or 'local').
+// Vectors from different providers are not comparable: documents must be
+// ingested with the same provider that is used to search them.
+
+// Must match the VECTOR(1536) column on document_chunks
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  name: string;
+  // Returns one vector per input, in input order
+  embed(inputs: string[]): Promise<number[][]>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  name = 'openai';
+
+  constructor(
+    private apiKey: string,
+    private model = 'text-embedding-3-small',
+  ) {}
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: inputs,
+        // Only text-embedding-3 models accept a dimensions parameter
+        ...(this.model.startsWith('text-embedding-3') ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OpenAI API error:', errorText);
+      throw new Error(`Failed to create embeddings: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    if (!Array.isArray(data.data) || data.data.length !== inputs.length) {
+      throw new Error('Invalid embedding response');
+    }
+
+    // Responses carry an index per input; do not rely on array order
+    return [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+// FNV-1a, 32-bit
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic offline stand-in: hashes word unigrams and character trigrams
+// into a fixed-size signed vector (the "hashing trick"), then L2-normalises it.
+// Texts sharing vocabulary get a high cosine similarity, which is enough to
+// exercise the upload → search flow with no network or model download.
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  name = 'local';
+
+  constructor(private dimensions = EMBEDDING_DIMENSIONS) {}
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    return inputs.map((input) => this.embedOne(input));
+  }
+
+  private embedOne(input: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = input.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = hashString(feature);
+      // One hash bit picks the sign so collisions tend to cancel out
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % this.dimensions] += sign * weight;
+    };
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+export const createEmbeddingProvider = (): EmbeddingProvider => {
+  const providerName = Deno.env.get('EMBEDDING_PROVIDER') || 'openai';
+
+  switch (providerName) {
+    case 'local':
+      return new LocalHashEmbeddingProvider();
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('Missing OpenAI API key');
+      }
+      return new OpenAIEmbeddingProvider(apiKey, Deno.env.get('EMBEDDING_MODEL') || undefined);
+    }
+    default:
+      throw new Error(`Unknown embedding provider: ${providerName}`);
+  }
+};
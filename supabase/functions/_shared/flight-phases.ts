@@ -0,0 +1,59 @@
+// Flight phases as offered by the phase selector in the app. process-pdf tags
+// each chunk with the phases it applies to; search-documents boosts chunks
+// tagged with the crew's selected phase.
+
+export const FLIGHT_PHASES = [
+  'preflight',
+  'taxi',
+  'takeoff',
+  'climb',
+  'cruise',
+  'descent',
+  'approach',
+  'landing',
+  'emergency',
+] as const;
+
+export type FlightPhase = typeof FLIGHT_PHASES[number];
+
+// Terms that mark a section or passage as belonging to a phase (Airbus SOP
+// and FCTM wording). Matched case-insensitively on word boundaries.
+const PHASE_PATTERNS: Record<FlightPhase, RegExp> = {
+  preflight: /\b(pre-?flight|cockpit preparation|exterior (inspection|walk-?around)|before (engine )?start|engine start|push-?back|refuel(l?ing)?|boarding)\b/gi,
+  taxi: /\b(taxi(ing)?|after start|before take-?off|brake check|nose ?wheel steering|after landing|parking)\b/gi,
+  takeoff: /\b(take-?off|rejected take-?off|rto|v1|vr|v2|flex(ible)? (thrust|take-?off)|toga)\b/gi,
+  climb: /\b(climb|after take-?off|thrust reduction altitude|acceleration altitude)\b/gi,
+  cruise: /\b(cruise|step climb|optimum altitude|fuel monitoring|etops)\b/gi,
+  descent: /\b(descent|top of descent|approach preparation)\b/gi,
+  approach: /\b(approach|ils|rnav|rnp|glide ?(slope|path)|go-?around|missed approach|stabili[sz]ed)\b/gi,
+  landing: /\b(landing|touchdown|flare|autobrake|reversers?|roll-?out)\b/gi,
+  emergency: /\b(emergency|abnormal|ecam|fire|smoke|ditching|evacuation|engine failure|depressuri[sz]ation|mayday)\b/gi,
+};
+
+// A phase named only in the text needs this many mentions to count
+const MIN_CONTENT_MATCHES = 2;
+// Body text tags at most this many phases, the most mentioned first
+const MAX_CONTENT_PHASES = 2;
+
+const countMatches = (text: string, pattern: RegExp): number => text.match(pattern)?.length ?? 0;
+
+export const isFlightPhase = (value: unknown): value is FlightPhase =>
+  FLIGHT_PHASES.includes(value as FlightPhase);
+
+// Phases named in the section path win; body text is only used for chunks
+// whose headings say nothing about the phase.
+export const tagFlightPhases = (sectionPath: string[], content: string): FlightPhase[] => {
+  const heading = sectionPath.join(' ');
+  const fromHeading = FLIGHT_PHASES.filter((phase) => countMatches(heading, PHASE_PATTERNS[phase]) > 0);
+  if (fromHeading.length > 0) {
+    return fromHeading;
+  }
+
+  return FLIGHT_PHASES
+    .map((phase) => ({ phase, count: countMatches(content, PHASE_PATTERNS[phase]) }))
+    .filter(({ count }) => count >= MIN_CONTENT_MATCHES)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_CONTENT_PHASES)
+    .map(({ phase }) => phase)
+    .sort((a, b) => FLIGHT_PHASES.indexOf(a) - FLIGHT_PHASES.indexOf(b));
+};
@@ -0,0 +1,134 @@
+// Conversational query rewriting for search-documents: turns a follow-up such
+// as "what about with one engine inoperative?" into a standalone retrieval
+// query using the earlier turns. Select one with the QUERY_REWRITER env var
+// ('openai' or 'local'); it defaults to ANSWER_PROVIDER.
+
+import type { ConversationTurn } from './conversation.ts';
+
+export interface RewriteRequest {
+  query: string;
+  phase: string | null;
+  history: ConversationTurn[];
+}
+
+export interface QueryRewriter {
+  name: string;
+  rewrite(request: RewriteRequest): Promise<string>;
+}
+
+const SYSTEM_PROMPT = `You rewrite a pilot's latest question about Airbus A321 manuals into a standalone search query.
+Resolve pronouns and follow-ups ("what about...", "and with...") using the earlier conversation.
+Keep aviation abbreviations, ECAM titles and exact terms as written.
+If the question already stands on its own, return it unchanged.
+Reply with the query only.`;
+
+const formatConversation = (request: RewriteRequest): string => {
+  const phaseLine = request.phase ? `Current flight phase: ${request.phase}\n\n` : '';
+  const turns = request.history
+    .map((turn) => `${turn.role === 'user' ? 'Pilot' : 'Assistant'}: ${turn.content}`)
+    .join('\n');
+  return `${phaseLine}Conversation:\n${turns}\n\nLatest question: ${request.query}`;
+};
+
+export class OpenAIQueryRewriter implements QueryRewriter {
+  name = 'openai';
+
+  constructor(
+    private apiKey: string,
+    private model = 'gpt-4o-mini',
+  ) {}
+
+  async rewrite(request: RewriteRequest): Promise<string> {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        max_tokens: 100,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: formatConversation(request) },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Query rewriting failed: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('Invalid query rewriting response');
+    }
+
+    return content.trim().replace(/^"(.*)"$/, '$1');
+  }
+}
+
+const FOLLOW_UP_OPENING = /^(and|also|then|what about|how about|what if|same|with|without|in case of)\b/i;
+const BACK_REFERENCE = /\b(it|its|that|this|those|these|they|them|same)\b/i;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'what', 'when', 'where', 'which', 'how', 'about', 'with', 'without',
+  'are', 'is', 'was', 'does', 'do', 'can', 'should', 'must', 'our', 'you', 'your', 'this',
+  'that', 'these', 'those', 'there', 'then', 'from', 'into', 'any', 'all', 'also',
+]);
+
+const tokenize = (text: string): string[] => {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+};
+
+// Deterministic stand-in: when the question reads like a follow-up, the
+// content words of the previous question are appended to it. Needs no network.
+export class LocalQueryRewriter implements QueryRewriter {
+  name = 'local';
+
+  async rewrite(request: RewriteRequest): Promise<string> {
+    const previousQuestion = [...request.history].reverse().find((turn) => turn.role === 'user');
+    if (!previousQuestion) {
+      return request.query;
+    }
+
+    const queryTerms = tokenize(request.query);
+    const isFollowUp = FOLLOW_UP_OPENING.test(request.query.trim())
+      || BACK_REFERENCE.test(request.query)
+      || queryTerms.length <= 3;
+    if (!isFollowUp) {
+      return request.query;
+    }
+
+    const seen = new Set(queryTerms);
+    const carried = tokenize(previousQuestion.content).filter((term) => {
+      if (term.length < 3 || STOPWORDS.has(term) || seen.has(term)) return false;
+      seen.add(term);
+      return true;
+    });
+
+    return carried.length > 0 ? `${request.query} ${carried.join(' ')}` : request.query;
+  }
+}
+
+export const createQueryRewriter = (): QueryRewriter => {
+  const rewriterName = Deno.env.get('QUERY_REWRITER') || Deno.env.get('ANSWER_PROVIDER') || 'openai';
+
+  switch (rewriterName) {
+    case 'local':
+      return new LocalQueryRewriter();
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('Missing OpenAI API key');
+      }
+      return new OpenAIQueryRewriter(apiKey, Deno.env.get('QUERY_REWRITE_MODEL') || undefined);
+    }
+    default:
+      throw new Error(`Unknown query rewriter: ${rewriterName}`);
+  }
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { reciprocalRankFusion, type FusableChunk } from './rank-fusion.ts';
+
+const vectorHit = (id: string, similarity: number): FusableChunk => ({ id, similarity, keyword_rank: null });
+const keywordHit = (id: string, keywordRank: number): FusableChunk => ({ id, similarity: null, keyword_rank: keywordRank });
+
+describe('reciprocalRankFusion', () => {
+  it('ranks chunks found by both retrievers above chunks found by one', () => {
+    const fused = reciprocalRankFusion([
+      [vectorHit('a', 0.9), vectorHit('b', 0.8)],
+      [keywordHit('c', 0.5), keywordHit('b', 0.4)],
+    ]);
+
+    expect(fused.map((chunk) => chunk.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].fused_score).toBeCloseTo(1 / 62 + 1 / 62);
+  });
+
+  it('keeps the score from each retriever that found the chunk', () => {
+    const [fused] = reciprocalRankFusion([[vectorHit('a', 0.7)], [keywordHit('a', 0.3)]]);
+
+    expect(fused.similarity).toBe(0.7);
+    expect(fused.keyword_rank).toBe(0.3);
+  });
+
+  it('orders by rank, not by the retrievers\' raw scores', () => {
+    const fused = reciprocalRankFusion([[vectorHit('a', 0.31)], [keywordHit('b', 0.99)]]);
+
+    expect(fused.map((chunk) => chunk.fused_score)).toEqual([1 / 61, 1 / 61]);
+  });
+});
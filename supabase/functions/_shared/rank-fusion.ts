@@ -0,0 +1,35 @@
+// Reciprocal rank fusion of the vector and keyword results for hybrid search
+// in search-documents.
+
+// Reciprocal rank fusion constant; 60 is the value from the original RRF paper
+const RRF_K = 60;
+
+export interface FusableChunk {
+  id: string;
+  similarity: number | null;
+  keyword_rank: number | null;
+  fused_score?: number;
+}
+
+// Merges ranked lists by summing 1 / (k + rank) per list a chunk appears in.
+// Rank-based, so cosine similarity and ts_rank scores never need calibrating.
+export const reciprocalRankFusion = <T extends FusableChunk>(rankedLists: T[][]): T[] => {
+  const fused = new Map<string, T>();
+
+  for (const list of rankedLists) {
+    list.forEach((chunk, index) => {
+      const contribution = 1 / (RRF_K + index + 1);
+      const existing = fused.get(chunk.id);
+
+      if (existing) {
+        existing.fused_score = (existing.fused_score || 0) + contribution;
+        existing.similarity = existing.similarity ?? chunk.similarity;
+        existing.keyword_rank = existing.keyword_rank ?? chunk.keyword_rank;
+      } else {
+        fused.set(chunk.id, { ...chunk, fused_score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => (b.fused_score || 0) - (a.fused_score || 0));
+};
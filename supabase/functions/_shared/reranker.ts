@@ -0,0 +1,200 @@
+// Re-rankers for search-documents: score each retrieved candidate against the
+// query, reading query and passage together rather than comparing embeddings.
+// Select one with the RERANKER env var ('openai', 'cross-encoder' or 'local');
+// it defaults to ANSWER_PROVIDER.
+
+export interface RerankCandidate {
+  content: string;
+  sectionTitle: string | null;
+}
+
+export interface Reranker {
+  name: string;
+  // Returns one relevance score (0..1, higher is better) per candidate, in candidate order
+  rerank(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+// Passages are cut to this length before scoring to bound prompt size
+const MAX_PASSAGE_CHARS = 1000;
+
+const SYSTEM_PROMPT = `You judge how well passages from Airbus A321 manuals answer a pilot's question.
+Rate every passage from 0 (unrelated) to 10 (directly answers the question).
+Reply with JSON only: {"scores": [<one number per passage, in passage order>]}.`;
+
+const formatCandidate = (candidate: RerankCandidate): string => {
+  const heading = candidate.sectionTitle ? `${candidate.sectionTitle}\n` : '';
+  return `${heading}${candidate.content}`.slice(0, MAX_PASSAGE_CHARS);
+};
+
+// LLM re-ranker: one chat completion grades the whole candidate list
+export class OpenAIReranker implements Reranker {
+  name = 'openai';
+
+  constructor(
+    private apiKey: string,
+    private model = 'gpt-4o-mini',
+  ) {}
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const passages = candidates
+      .map((candidate, index) => `[${index + 1}]\n${formatCandidate(candidate)}`)
+      .join('\n\n');
+
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: `Question: ${query}\n\nPassages:\n\n${passages}` },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Re-ranking failed: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    const scores = JSON.parse(data.choices?.[0]?.message?.content ?? '{}').scores;
+
+    if (!Array.isArray(scores) || scores.length !== candidates.length) {
+      throw new Error('Invalid re-ranking response');
+    }
+
+    return scores.map((score) => Math.min(Math.max(Number(score) || 0, 0), 10) / 10);
+  }
+}
+
+// Cross-encoder served over HTTP with the text-embeddings-inference /rerank
+// API (e.g. BAAI/bge-reranker-base): POST { query, texts } returns
+// [{ index, score }] with scores already in 0..1.
+export class CrossEncoderReranker implements Reranker {
+  name = 'cross-encoder';
+
+  constructor(
+    private url: string,
+    private apiKey?: string,
+  ) {}
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const response = await fetch(`${this.url.replace(/\/$/, '')}/rerank`, {
+      method: 'POST',
+      headers: {
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query,
+        texts: candidates.map(formatCandidate),
+        truncate: true,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Re-ranking failed: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error('Invalid re-ranking response');
+    }
+
+    // Results come sorted by score; put them back in candidate order
+    const scores = new Array<number>(candidates.length).fill(0);
+    for (const { index, score } of data) {
+      scores[index] = score;
+    }
+    return scores;
+  }
+}
+
+// BM25 parameters: term frequency saturation and length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Share of the score reserved for query word pairs found next to each other
+const PHRASE_WEIGHT = 0.3;
+
+const tokenize = (text: string): string[] => {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+};
+
+// Deterministic stand-in: BM25 over the candidate list itself (document
+// frequencies come from the candidates), plus a bonus for query word pairs
+// that appear as a phrase, e.g. "engine fire" or "landing gear". Needs no network.
+export class LocalLexicalReranker implements Reranker {
+  name = 'local';
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documents = candidates.map((candidate) => tokenize(`${candidate.sectionTitle ?? ''} ${candidate.content}`));
+    if (queryTerms.length === 0 || documents.length === 0) {
+      return candidates.map(() => 0);
+    }
+
+    const averageLength = documents.reduce((sum, words) => sum + words.length, 0) / documents.length || 1;
+    const inverseFrequency = new Map(queryTerms.map((term) => {
+      const containing = documents.filter((words) => words.includes(term)).length;
+      return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+    }));
+
+    const queryPairs = queryTerms.slice(1).map((term, index) => `${queryTerms[index]} ${term}`);
+
+    const bm25 = documents.map((words) => {
+      const frequencies = new Map<string, number>();
+      for (const word of words) {
+        frequencies.set(word, (frequencies.get(word) || 0) + 1);
+      }
+      const lengthNorm = 1 - BM25_B + BM25_B * (words.length / averageLength);
+      return queryTerms.reduce((sum, term) => {
+        const frequency = frequencies.get(term) || 0;
+        return sum + inverseFrequency.get(term)! * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+      }, 0);
+    });
+
+    const phrase = documents.map((words) => {
+      if (queryPairs.length === 0) return 0;
+      const text = ` ${words.join(' ')} `;
+      return queryPairs.filter((pair) => text.includes(` ${pair} `)).length / queryPairs.length;
+    });
+
+    // Scale BM25 against the best candidate so scores land in 0..1
+    const best = Math.max(...bm25);
+    return bm25.map((score, index) =>
+      (1 - PHRASE_WEIGHT) * (best > 0 ? score / best : 0) + PHRASE_WEIGHT * phrase[index]
+    );
+  }
+}
+
+export const createReranker = (): Reranker => {
+  const rerankerName = Deno.env.get('RERANKER') || Deno.env.get('ANSWER_PROVIDER') || 'openai';
+
+  switch (rerankerName) {
+    case 'local':
+      return new LocalLexicalReranker();
+    case 'cross-encoder': {
+      const url = Deno.env.get('RERANKER_URL');
+      if (!url) {
+        throw new Error('Missing RERANKER_URL for the cross-encoder re-ranker');
+      }
+      return new CrossEncoderReranker(url, Deno.env.get('RERANKER_API_KEY') || undefined);
+    }
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('Missing OpenAI API key');
+      }
+      return new OpenAIReranker(apiKey, Deno.env.get('RERANK_MODEL') || undefined);
+    }
+    default:
+      throw new Error(`Unknown re-ranker: ${rerankerName}`);
+  }
+};
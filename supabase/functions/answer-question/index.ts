@@ -0,0 +1,311 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+import {
+  createAnswerProvider,
+  extractCitations,
+  NOT_FOUND_SENTINEL,
+  type AnswerPassage,
+  type AnswerProvider,
+  type AnswerRequest,
+} from '../_shared/answer-provider.ts';
+import { recentTurns } from '../_shared/conversation.ts';
+import { assessConfidence } from '../_shared/answer-confidence.ts';
+import { loadRetrieval, recordAnswer, type AnswerResult, type AuditedChunk } from '../_shared/audit-log.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Chunks scoring below this are not considered relevant enough to answer from
+const MIN_SIMILARITY = 0.3;
+// Keyword-only matches (no similarity) must reach this rank instead; the
+// same bar search_keyword_chunks applies by default
+const MIN_KEYWORD_RANK = 0.1;
+// Upper bound on passages sent to the model to keep the prompt small
+const MAX_PASSAGES = 8;
+
+const sseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+const REFUSAL_MESSAGE = 'I could not find this in your uploaded manuals. Please consult the applicable FCOM/QRH section directly.';
+
+interface RetrievedChunk extends AuditedChunk {
+  // Citation marker: the chunk's position in the retrieval, from 1
+  marker: number;
+  content: string;
+  page_number: number | null;
+  page_label: string | null;
+  section_title: string | null;
+  section_path: string[] | null;
+  document_title: string;
+}
+
+const isRelevant = (chunk: RetrievedChunk): boolean =>
+  chunk.similarity != null
+    ? chunk.similarity >= MIN_SIMILARITY
+    : (chunk.keyword_rank ?? 0) >= MIN_KEYWORD_RANK;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // retrievalId comes from search-documents, which recorded the question and
+    // the chunks it retrieved. stream: true answers with server-sent events:
+    // "token" events carrying text as it is generated, then one "done" event
+    // with the final result.
+    const {
+      retrievalId,
+      stream = false,
+      history = [],
+    } = await req.json();
+
+    if (!retrievalId) {
+      throw new Error('Retrieval ID is required');
+    }
+
+    const authToken = req.headers.get('authorization')?.replace('Bearer ', '');
+    const retrieval = await loadRetrieval(authToken, retrievalId);
+
+    if (!retrieval) {
+      return new Response(
+        JSON.stringify({ error: 'Search not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { query, phase } = retrieval;
+    // Recorded after the response has gone, so kept alive past it
+    const audit = (result: AnswerResult) => EdgeRuntime.waitUntil(recordAnswer(retrieval, result));
+
+    const chunks = await loadChunks(authToken, retrieval.chunks);
+    const relevantChunks = chunks
+      .filter(isRelevant)
+      .slice(0, MAX_PASSAGES);
+
+    console.log(`Answering "${query}" (phase: ${phase}) from ${relevantChunks.length}/${retrieval.chunks.length} chunks`);
+
+    if (relevantChunks.length === 0) {
+      audit(refusalAudit(null));
+      return stream ? eventStream([['done', refusalResult(query)]]) : refusal(query);
+    }
+
+    // Marker N in the answer refers to the Nth retrieved chunk, matching the order of sources shown to the user
+    const passages: AnswerPassage[] = relevantChunks.map((chunk) => ({
+      marker: chunk.marker,
+      content: chunk.content,
+      documentTitle: chunk.document_title,
+      sectionTitle: chunk.section_path?.length ? chunk.section_path.join(' › ') : chunk.section_title,
+      pageNumber: chunk.page_number,
+      pageLabel: chunk.page_label,
+    }));
+
+    const provider = createAnswerProvider();
+    const request: AnswerRequest = { query, phase, passages, history: recentTurns(history) };
+
+    if (stream) {
+      return streamAnswer(provider, request, retrieval.chunks, audit);
+    }
+
+    const answer = await provider.generate(request);
+    const citations = extractCitations(answer, passages);
+
+    // An answer that cites nothing is not grounded in the manuals
+    if (answer.includes(NOT_FOUND_SENTINEL) || citations.length === 0) {
+      console.log(`Provider ${provider.name} found no grounded answer`);
+      audit(refusalAudit(provider.name));
+      return refusal(query);
+    }
+
+    const confidence = assessConfidence(answer, citations, retrieval.chunks);
+    console.log(`Provider ${provider.name} answered citing [${citations.join(', ')}] (confidence: ${confidence})`);
+    audit({ answer, citations, confidence, outcome: 'answered', provider: provider.name });
+
+    return new Response(
+      JSON.stringify({
+        answer,
+        citations,
+        confidence,
+        refused: false,
+        query,
+        provider: provider.name,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error answering question:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to generate an answer. Please try again.' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
+
+function refusalResult(query: string) {
+  return {
+    answer: REFUSAL_MESSAGE,
+    citations: [],
+    // Nothing in the manuals supports an answer, so there is nothing to rate
+    confidence: null,
+    refused: true,
+    query,
+  };
+}
+
+// The retrieved chunks' text, read as the caller so only passages they can
+// see reach the model. Chunks deleted or hidden since the search are left out;
+// the others keep their position in the retrieval as their marker.
+async function loadChunks(authToken: string | undefined, retrieved: AuditedChunk[]): Promise<RetrievedChunk[]> {
+  if (retrieved.length === 0) {
+    return [];
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: {
+        Authorization: `Bearer ${authToken}`,
+      },
+    },
+  });
+
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('id, content, page_number, page_label, section_title, section_path, documents(title)')
+    .in('id', retrieved.map((chunk) => chunk.id));
+
+  if (error) {
+    throw new Error(`Failed to load retrieved chunks: ${error.message}`);
+  }
+
+  const visible = new Map((data || []).map((row) => [row.id, row]));
+
+  return retrieved.flatMap((chunk, index) => {
+    const row = visible.get(chunk.id);
+    if (!row?.content) return [];
+
+    return [{
+      ...chunk,
+      marker: index + 1,
+      content: row.content,
+      page_number: row.page_number,
+      page_label: row.page_label,
+      section_title: row.section_title,
+      section_path: row.section_path,
+      document_title: row.documents?.title ?? chunk.document_title ?? '',
+    }];
+  });
+}
+
+function refusalAudit(provider: string | null): AnswerResult {
+  return { answer: REFUSAL_MESSAGE, citations: [], confidence: null, outcome: 'not_found', provider };
+}
+
+function refusal(query: string) {
+  return new Response(
+    JSON.stringify(refusalResult(query)),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+const encodeEvent = (event: string, data: unknown) =>
+  new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+function eventStream(events: [string, unknown][]) {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      events.forEach(([event, data]) => controller.enqueue(encodeEvent(event, data)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: sseHeaders });
+}
+
+// Streams the answer as it is generated. Cancelling the response (the client
+// pressed stop or went away) aborts generation upstream as well.
+function streamAnswer(
+  provider: AnswerProvider,
+  request: AnswerRequest,
+  chunks: AuditedChunk[],
+  audit: (result: AnswerResult) => void,
+) {
+  const abort = new AbortController();
+
+  // Runs to completion even after the response is cancelled, so a stopped
+  // answer is still recorded
+  const generate = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    let answer = '';
+    let sentLength = 0;
+
+    try {
+      for await (const token of provider.stream(request, abort.signal)) {
+        answer += token;
+        // Hold back text that may still turn out to be the not-found sentinel
+        if (NOT_FOUND_SENTINEL.startsWith(answer.trim())) continue;
+
+        controller.enqueue(encodeEvent('token', { text: answer.slice(sentLength) }));
+        sentLength = answer.length;
+      }
+
+      answer = answer.trim();
+      const citations = extractCitations(answer, request.passages);
+
+      // An answer that cites nothing is not grounded in the manuals; the
+      // client replaces whatever was streamed with the refusal
+      if (answer.includes(NOT_FOUND_SENTINEL) || citations.length === 0) {
+        console.log(`Provider ${provider.name} found no grounded answer`);
+        controller.enqueue(encodeEvent('done', refusalResult(request.query)));
+        audit(refusalAudit(provider.name));
+      } else {
+        const confidence = assessConfidence(answer, citations, chunks);
+        console.log(`Provider ${provider.name} answered citing [${citations.join(', ')}] (confidence: ${confidence})`);
+        controller.enqueue(encodeEvent('done', {
+          answer,
+          citations,
+          confidence,
+          refused: false,
+          query: request.query,
+          provider: provider.name,
+        }));
+        audit({ answer, citations, confidence, outcome: 'answered', provider: provider.name });
+      }
+      controller.close();
+    } catch (error) {
+      // Whatever was generated before the stop or failure is what the crew saw
+      const partial = { answer: answer.trim(), citations: extractCitations(answer, request.passages), confidence: null };
+      if (abort.signal.aborted) {
+        console.log('Answer cancelled by the client');
+        audit({ ...partial, outcome: 'stopped', provider: provider.name });
+        return;
+      }
+      console.error('Error streaming answer:', error);
+      controller.enqueue(encodeEvent('error', { error: 'Failed to generate an answer. Please try again.' }));
+      controller.close();
+      audit({ ...partial, outcome: 'failed', provider: provider.name });
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      EdgeRuntime.waitUntil(generate(controller));
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, { headers: sseHeaders });
+}
@@ -0,0 +1,380 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+
+// Background ingestion worker. The client uploads the file, creates the
+// document row and calls this function, which replies 202 straight away and
+// runs one pipeline step in the background:
+//
+//   extracting  download from storage, run pdf-extract on the next slice of
+//               pages (OCR included) and store them in document_pages
+//   chunking /  call process-pdf, which chunks, embeds and checkpoints;
+//   embedding   large manuals take several calls
+//
+// After each step the worker invokes itself for the next one, so no single
+// invocation runs into the edge runtime's wall-clock limit. Progress is kept
+// on the document row, which clients watch over realtime.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+// Vercel pdf-extract endpoint, e.g. https://<app>.vercel.app/api/pdf-extract
+const pdfExtractUrl = Deno.env.get('PDF_EXTRACT_URL')!;
+
+// Failed steps are retried this many times before the document is marked failed
+const MAX_ATTEMPTS = 3;
+// Wait before retrying a failed step, doubled on each further attempt
+const RETRY_BACKOFF_MS = 5_000;
+// A job locked for longer than this is assumed to belong to a crashed run
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+// Pages sent to pdf-extract per step; scanned pages take seconds each to OCR
+const EXTRACT_PAGES_PER_STEP = 25;
+// OCR'd pages below this Tesseract confidence are flagged as low quality
+const LOW_OCR_CONFIDENCE = 60;
+
+interface IngestionJob {
+  id: string;
+  document_id: string;
+  status: string;
+  attempts: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing Supabase configuration');
+    }
+    if (!pdfExtractUrl) {
+      throw new Error('Missing PDF extraction endpoint');
+    }
+
+    const { documentId } = await req.json();
+
+    if (!documentId) {
+      throw new Error('Document ID is required');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only this worker re-invoking itself with the service key, or someone
+    // who may manage the document, can (re)start its ingestion
+    const authToken = req.headers.get('authorization')?.replace('Bearer ', '');
+    const allowed = authToken === supabaseServiceKey || await canManageDocument(supabase, authToken, documentId);
+
+    if (!allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Document not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Enqueue (no-op if the job already exists; a failed job is retried)
+    const { error: enqueueError } = await supabase
+      .from('ingestion_jobs')
+      .upsert({ document_id: documentId }, { onConflict: 'document_id', ignoreDuplicates: true });
+
+    if (enqueueError) {
+      throw new Error(`Failed to enqueue document: ${enqueueError.message}`);
+    }
+
+    await retryFailedJob(supabase, documentId);
+
+    EdgeRuntime.waitUntil(runStep(supabase, documentId));
+
+    return new Response(
+      JSON.stringify({ queued: true, documentId }),
+      { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error enqueuing document:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to queue document for processing.' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
+
+async function runStep(supabase: SupabaseClient, documentId: string) {
+  const job = await claimJob(supabase, documentId);
+  if (!job) {
+    console.log(`Job for ${documentId} is finished or already running`);
+    return;
+  }
+
+  let runAgain = false;
+  let retryDelay = 0;
+
+  try {
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, file_path, processing_status, extracted_pages')
+      .eq('id', documentId)
+      .single();
+
+    if (docError) {
+      throw new Error(`Failed to fetch document: ${docError.message}`);
+    }
+
+    if (document.processing_status === 'queued' || document.processing_status === 'extracting') {
+      await extractPages(supabase, document.id, document.file_path, document.extracted_pages);
+      runAgain = true;
+    } else {
+      const { data: result, error: processError } = await supabase.functions.invoke('process-pdf', {
+        body: { documentId },
+      });
+
+      if (processError) {
+        throw new Error(`Chunking and embedding failed: ${processError.message}`);
+      }
+
+      runAgain = !result.completed;
+      if (result.completed) {
+        await updateJob(supabase, job.id, { status: 'completed', last_error: null });
+        console.log(`Ingestion completed for ${documentId}`);
+      }
+    }
+
+    // Progress was made, so the retry budget starts over
+    if (runAgain) {
+      await updateJob(supabase, job.id, { status: 'queued', attempts: 0 });
+    }
+  } catch (error) {
+    const attempts = job.attempts + 1;
+    console.error(`Ingestion step failed for ${documentId} (attempt ${attempts}/${MAX_ATTEMPTS}):`, error);
+
+    runAgain = attempts < MAX_ATTEMPTS;
+    retryDelay = RETRY_BACKOFF_MS * 2 ** (attempts - 1);
+    await updateJob(supabase, job.id, {
+      status: runAgain ? 'queued' : 'failed',
+      attempts,
+      last_error: error.message,
+    });
+
+    if (!runAgain) {
+      await supabase
+        .from('documents')
+        .update({ processing_status: 'failed', processing_error: error.message })
+        .eq('id', documentId);
+    }
+  } finally {
+    await updateJob(supabase, job.id, { locked_at: null });
+  }
+
+  if (runAgain) {
+    if (retryDelay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, retryDelay));
+    }
+    await invokeSelf(documentId);
+  }
+}
+
+// Same rule as the documents UPDATE policy: the owner of a personal
+// document, or a librarian of the document's organisation
+async function canManageDocument(supabase: SupabaseClient, authToken: string | undefined, documentId: string): Promise<boolean> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser(authToken);
+  if (userError || !user) return false;
+
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('user_id, organization_id')
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (docError || !document) return false;
+
+  if (!document.organization_id) {
+    return document.user_id === user.id;
+  }
+
+  const { data: membership, error: memberError } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', document.organization_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  return !memberError && membership?.role === 'librarian';
+}
+
+// Re-enqueuing a job that ran out of attempts starts it over with a fresh
+// retry budget. The document resumes from the step that failed: extraction
+// if pages are missing, otherwise chunking (process-pdf keeps its own
+// embedding checkpoint).
+async function retryFailedJob(supabase: SupabaseClient, documentId: string) {
+  const { data: job, error: resetError } = await supabase
+    .from('ingestion_jobs')
+    .update({ status: 'queued', attempts: 0, last_error: null, locked_at: null })
+    .eq('document_id', documentId)
+    .eq('status', 'failed')
+    .select('id')
+    .maybeSingle();
+
+  if (resetError) {
+    throw new Error(`Failed to reset ingestion job: ${resetError.message}`);
+  }
+  if (!job) return;
+
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('page_count, extracted_pages')
+    .eq('id', documentId)
+    .single();
+
+  if (docError) {
+    throw new Error(`Failed to fetch document: ${docError.message}`);
+  }
+
+  const extracted = document.page_count !== null && document.extracted_pages >= document.page_count;
+  const { error: updateError } = await supabase
+    .from('documents')
+    .update({ processing_status: extracted ? 'chunking' : 'extracting', processing_error: null })
+    .eq('id', documentId);
+
+  if (updateError) {
+    throw new Error(`Failed to reset document status: ${updateError.message}`);
+  }
+
+  console.log(`Retrying failed ingestion for ${documentId}`);
+}
+
+// Locks the job for this run; returns null if it is done or locked by another run
+async function claimJob(supabase: SupabaseClient, documentId: string): Promise<IngestionJob | null> {
+  const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({ status: 'running', locked_at: new Date().toISOString() })
+    .eq('document_id', documentId)
+    .in('status', ['queued', 'running'])
+    .or(`locked_at.is.null,locked_at.lt.${staleBefore}`)
+    .select('id, document_id, status, attempts')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim ingestion job: ${error.message}`);
+  }
+
+  return data;
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, changes: Record<string, unknown>) {
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update(changes)
+    .eq('id', jobId);
+
+  if (error) {
+    console.error(`Failed to update ingestion job ${jobId}:`, error);
+  }
+}
+
+// Extracts the next slice of pages; moves the document on to chunking after the last one
+async function extractPages(supabase: SupabaseClient, documentId: string, filePath: string, extractedPages: number) {
+  const firstPage = extractedPages + 1;
+
+  if (firstPage === 1) {
+    // Replace pages from any earlier, interrupted extraction
+    await supabase.from('document_pages').delete().eq('document_id', documentId);
+    await supabase
+      .from('documents')
+      .update({ processing_status: 'extracting', processing_error: null })
+      .eq('id', documentId);
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(filePath);
+
+  if (downloadError || !file) {
+    throw new Error(`Failed to download file: ${downloadError?.message || 'empty file'}`);
+  }
+
+  const formData = new FormData();
+  formData.append('file', file, filePath.split('/').pop());
+  formData.append('startPage', String(firstPage));
+  formData.append('endPage', String(firstPage + EXTRACT_PAGES_PER_STEP - 1));
+
+  const extractResponse = await fetch(pdfExtractUrl, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!extractResponse.ok) {
+    const errorData = await extractResponse.json().catch(() => ({}));
+    throw new Error(`Text extraction failed: ${errorData.details || extractResponse.status}`);
+  }
+
+  const { metadata } = await extractResponse.json();
+  const pageDetails = metadata?.pageDetails || [];
+
+  if (pageDetails.length > 0) {
+    const { error: pagesError } = await supabase
+      .from('document_pages')
+      .upsert(pageDetails.map((page) => ({
+        document_id: documentId,
+        page_number: page.pageNumber,
+        page_label: page.pageLabel,
+        text: page.text || '',
+        ocr_confidence: page.ocrConfidence ?? null,
+      })), { onConflict: 'document_id,page_number' });
+
+    if (pagesError) {
+      throw new Error(`Failed to store pages: ${pagesError.message}`);
+    }
+  }
+
+  const pageCount = metadata?.pages || 0;
+  const lastPage = metadata?.lastPage || pageCount;
+  const progress: Record<string, unknown> = { page_count: pageCount, extracted_pages: lastPage };
+
+  if (lastPage >= pageCount) {
+    const { data: lowConfidence, error: confidenceError } = await supabase
+      .from('document_pages')
+      .select('page_number')
+      .eq('document_id', documentId)
+      .lt('ocr_confidence', LOW_OCR_CONFIDENCE)
+      .order('page_number', { ascending: true });
+
+    if (confidenceError) {
+      throw new Error(`Failed to check OCR confidence: ${confidenceError.message}`);
+    }
+
+    progress.low_confidence_pages = (lowConfidence || []).map((page) => page.page_number);
+    progress.processing_status = 'chunking';
+  }
+
+  await supabase
+    .from('documents')
+    .update(progress)
+    .eq('id', documentId);
+
+  console.log(`Extracted pages ${firstPage}-${lastPage} of ${pageCount} for ${documentId}`);
+}
+
+async function invokeSelf(documentId: string) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/ingest-document`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ documentId }),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed to schedule next ingestion step for ${documentId}: ${response.status}`);
+  }
+}
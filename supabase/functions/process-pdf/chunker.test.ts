@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { detectHeading, isPageLabelLine, splitPagesIntoChunks, type PageText } from './chunker.ts';
+
+// Two FCOM pages with the running header, page label and footer Airbus prints on every page
+const fcomPages: PageText[] = [
+  {
+    pageNumber: 1,
+    text: [
+      'FLIGHT CREW OPERATING MANUAL',
+      'DSC-21-10-20 Air Conditioning',
+      'GENERAL',
+      'The air conditioning system keeps the air in the cockpit and cabin at the selected temperature.',
+      'Hot air from the packs is mixed with recirculated cabin air.',
+      'DSC-21-10-20 P 1/2',
+      'A321 FLEET FCOM',
+    ].join('\n'),
+  },
+  {
+    pageNumber: 2,
+    text: [
+      'FLIGHT CREW OPERATING MANUAL',
+      'TRIM AIR VALVES',
+      'The trim air valves add hot air to each zone to reach the temperature selected on the panel.',
+      'DSC-21-10-20 P 2/2',
+      'A321 FLEET FCOM',
+    ].join('\n'),
+  },
+];
+
+describe('isPageLabelLine', () => {
+  it('recognises printed page labels', () => {
+    expect(isPageLabelLine('DSC-21-10-20 P 1/2')).toBe(true);
+    expect(isPageLabelLine('Page 3 of 40')).toBe(true);
+  });
+
+  it('does not treat section codes or text as page labels', () => {
+    expect(isPageLabelLine('DSC-21-10-20 Air Conditioning')).toBe(false);
+    expect(isPageLabelLine('Select page 2 of the ECAM')).toBe(false);
+  });
+});
+
+describe('detectHeading', () => {
+  it('reads Airbus section codes as headings', () => {
+    expect(detectHeading('DSC-21-10-20 Air Conditioning', null)).toMatchObject({
+      title: 'DSC-21-10-20 Air Conditioning',
+      code: 'DSC-21-10-20',
+    });
+  });
+
+  it('never treats a page label as a heading', () => {
+    expect(detectHeading('DSC-21-10-20 P 1/2', null)).toBeNull();
+  });
+});
+
+describe('splitPagesIntoChunks', () => {
+  const chunks = splitPagesIntoChunks(fcomPages);
+
+  it('files content under the section it belongs to across pages', () => {
+    const trimAir = chunks.find((chunk) => chunk.content.includes('trim air valves add hot air'));
+    expect(trimAir?.page).toBe(2);
+    expect(trimAir?.sectionPath).toEqual(['DSC-21-10-20 Air Conditioning', 'TRIM AIR VALVES']);
+  });
+
+  it('keeps running headers and page labels out of sections and chunk text', () => {
+    for (const chunk of chunks) {
+      expect(chunk.sectionPath).not.toContain('FLIGHT CREW OPERATING MANUAL');
+      expect(chunk.content).not.toMatch(/FLIGHT CREW OPERATING MANUAL|A321 FLEET FCOM|P \d\/2/);
+    }
+  });
+
+  it('keeps all of the body text', () => {
+    const text = chunks.map((chunk) => chunk.content).join('\n');
+    expect(text).toContain('Hot air from the packs is mixed with recirculated cabin air.');
+    expect(text).toContain('The air conditioning system keeps the air');
+  });
+});
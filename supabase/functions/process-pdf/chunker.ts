@@ -0,0 +1,431 @@
+// Structure-aware chunking for Airbus manuals (FCOM, QRH, FCTM, ...).
+//
+// Text is first split into sections at headings, so a chunk never spans two
+// sections, then each section is packed into chunks at paragraph boundaries.
+// Consecutive procedure steps are kept together in a single chunk, and
+// markdown tables (rebuilt by pdf-extract) become table chunks of their own.
+// Printed page labels and running headers and footers are page furniture:
+// they are never headings and are left out of chunk text.
+
+export type ChunkType = 'text' | 'table';
+
+export interface TextChunk {
+  type: ChunkType;
+  // Markdown for table chunks
+  content: string;
+  // Physical PDF page the chunk starts on (1-based)
+  page: number;
+  // Page label printed in the manual, e.g. "DSC-21-10 P 3/12", when known
+  pageLabel: string | null;
+  section: string | null;
+  sectionPath: string[];
+}
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+  label?: string | null;
+}
+
+interface ChunkOptions {
+  // Preferred upper bound on chunk length in characters
+  maxChars: number;
+  // A single procedure longer than this is split between steps
+  hardMaxChars: number;
+}
+
+const DEFAULT_OPTIONS: ChunkOptions = {
+  maxChars: 1200,
+  hardMaxChars: 2400,
+};
+
+interface Heading {
+  // Lower levels are closer to the root of the manual
+  level: number;
+  title: string;
+  // Manual reference for code headings, e.g. "DSC-21-10"
+  code?: string;
+}
+
+interface SourceLine {
+  text: string;
+  // null when the text did not come with page boundaries
+  page: number | null;
+  pageLabel: string | null;
+  // Running header or footer repeated at the top or bottom of pages
+  running?: boolean;
+}
+
+interface Section {
+  path: string[];
+  lines: SourceLine[];
+}
+
+interface Unit {
+  text: string;
+  page: number | null;
+  pageLabel: string | null;
+  table?: boolean;
+}
+
+// Airbus manual references, e.g. "DSC-21-10-20 Air Conditioning", "PRO-ABN-26 Fire Protection"
+const AIRBUS_CODE_HEADING = /^((?:DSC|PRO|LIM|PER|GEN|AS|OEB|FCB|SUP|NOR|ABN|SOP|AOP)(?:-[A-Z0-9]{1,4}){1,4})\b\s*[-–:]?\s*(.{0,100})$/;
+// Decimal headings, e.g. "2.3.1 Engine Start". Single numbers only count when the title is upper case ("1 GENERAL")
+const MULTI_LEVEL_NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){1,3})\.?\s+([A-Z][A-Za-z0-9 ,/()&'-]{2,80})$/;
+const SINGLE_LEVEL_NUMBERED_HEADING = /^(\d{1,2})\s+([A-Z][A-Z0-9 ,/()&'-]{2,80})$/;
+// Markdown headings, produced by pdf-extract for DOCX and HTML documents, e.g. "## Crew Briefing"
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.{1,100})$/;
+// QRH/ECAM procedure titles, e.g. "ENG 1(2) FIRE (IN FLIGHT)", "SMOKE/FUMES/AVNCS SMOKE"
+const PROCEDURE_TITLE = /^[A-Z0-9][A-Z0-9 ()/&+.,'-]{3,70}$/;
+
+// Printed page labels (the ones pdf-extract detects), e.g. "DSC-21-10-20 P 1/2", "Page 12 of 300"
+const PAGE_LABEL_LINES = [
+  /\bP\s*\d+\s*\/\s*\d+$/,
+  /^(?:page\s+)?\d+\s+of\s+\d+$/i,
+];
+// Lines this close to the top or bottom of a page are checked for running headers and footers
+const PAGE_EDGE_LINES = 3;
+
+// Heading levels: manual codes (1-3) sit above decimal numbering and markdown headings (4-7),
+// which sit above procedure titles (8)
+const NUMBERED_LEVEL_OFFSET = 3;
+const PROCEDURE_LEVEL = 8;
+
+const STEP_PATTERNS = [
+  /\.{3,}|…/, // "ENG MASTER 1 ........ OFF"
+  /^\s*[-•▪●■]\s+/, // bulleted action
+  /^\s*\d{1,2}[.)]\s+/, // numbered step
+  /^\s*[a-z][.)]\s+/, // lettered sub-step
+  /^\s*(?:IF|WHEN|AS RQRD)\b/, // conditional lines
+];
+
+// Markdown table row, e.g. "| 60 t | 140 | 130 |"
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+export const isTableLine = (line: string): boolean => TABLE_ROW.test(line);
+
+export const isStepLine = (line: string): boolean => {
+  return STEP_PATTERNS.some((pattern) => pattern.test(line));
+};
+
+export const isPageLabelLine = (line: string): boolean => {
+  const trimmed = line.trim();
+  return PAGE_LABEL_LINES.some((pattern) => pattern.test(trimmed));
+};
+
+// Page numbers differ between repeats of the same header or footer
+const normalizeRunningLine = (line: string) => line.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\d+/g, '#');
+
+// Lines that appear near the top or bottom of more than one page, e.g.
+// "FLIGHT CREW OPERATING MANUAL" or "A320 QRH ... Page 3 of 40"
+const findRunningLines = (pages: PageText[]): Set<string> => {
+  const pagesPerLine = new Map<string, number>();
+
+  for (const page of pages) {
+    const lines = page.text.split('\n').filter((line) => line.trim());
+    const edges = new Set([...lines.slice(0, PAGE_EDGE_LINES), ...lines.slice(-PAGE_EDGE_LINES)].map(normalizeRunningLine));
+    edges.forEach((line) => pagesPerLine.set(line, (pagesPerLine.get(line) || 0) + 1));
+  }
+
+  return new Set([...pagesPerLine].filter(([, count]) => count > 1).map(([line]) => line));
+};
+
+export const detectHeading = (line: string, previousLine: string | null): Heading | null => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 120 || isPageLabelLine(trimmed)) {
+    return null;
+  }
+
+  const codeMatch = trimmed.match(AIRBUS_CODE_HEADING);
+  if (codeMatch) {
+    const segments = codeMatch[1].split('-').length;
+    return {
+      level: Math.min(Math.max(segments - 1, 1), 3),
+      title: codeMatch[2] ? `${codeMatch[1]} ${codeMatch[2].trim()}` : codeMatch[1],
+      code: codeMatch[1],
+    };
+  }
+
+  const markdownMatch = trimmed.match(MARKDOWN_HEADING);
+  if (markdownMatch) {
+    return {
+      level: Math.min(NUMBERED_LEVEL_OFFSET + markdownMatch[1].length, PROCEDURE_LEVEL - 1),
+      title: markdownMatch[2].trim(),
+    };
+  }
+
+  const numberedMatch = trimmed.match(MULTI_LEVEL_NUMBERED_HEADING) || trimmed.match(SINGLE_LEVEL_NUMBERED_HEADING);
+  if (numberedMatch && !isStepLine(numberedMatch[2])) {
+    return {
+      level: NUMBERED_LEVEL_OFFSET + numberedMatch[1].split('.').length,
+      title: `${numberedMatch[1]} ${numberedMatch[2].trim()}`,
+    };
+  }
+
+  // Upper-case lines are procedure titles unless they sit inside a run of steps ("LAND ASAP")
+  const afterSteps = previousLine !== null && isStepLine(previousLine);
+  if (
+    PROCEDURE_TITLE.test(trimmed) &&
+    /[A-Z]{2,}/.test(trimmed) &&
+    !isStepLine(trimmed) &&
+    !afterSteps &&
+    !/^PAGE\b/.test(trimmed) &&
+    trimmed.split(/\s+/).length <= 8
+  ) {
+    return { level: PROCEDURE_LEVEL, title: trimmed };
+  }
+
+  return null;
+};
+
+// A new heading closes open headings at the same or a deeper level, and any
+// code heading from another part of the manual ("PRO-ABN-26" closes "DSC-26")
+const closesHeading = (open: Heading, next: Heading): boolean => {
+  if (open.level >= next.level) {
+    return true;
+  }
+  return Boolean(open.code && next.code && !next.code.startsWith(`${open.code}-`));
+};
+
+const hasContent = (lines: SourceLine[]): boolean => lines.some((l) => l.text.trim());
+
+const splitIntoSections = (sourceLines: SourceLine[]): Section[] => {
+  const sections: Section[] = [];
+  const headingStack: Heading[] = [];
+  let current: Section = { path: [], lines: [] };
+  let previousLine: string | null = null;
+  // Running lines seen so far: a section heading repeated on every page only opens its section once
+  const seenRunning = new Set<string>();
+
+  for (const sourceLine of sourceLines) {
+    const line = sourceLine.text.trimEnd();
+    let heading = detectHeading(line, previousLine);
+
+    if (heading && sourceLine.running) {
+      const repeat = seenRunning.has(normalizeRunningLine(line));
+      seenRunning.add(normalizeRunningLine(line));
+      // Only a manual code heading can also be a running header ("DSC-21-10-20 Air Conditioning")
+      if (repeat || !heading.code) {
+        heading = null;
+      }
+    }
+
+    // Page furniture is not content: the page label is kept on the chunk instead
+    if (!heading && (sourceLine.running || isPageLabelLine(line))) {
+      continue;
+    }
+
+    if (heading) {
+      if (hasContent(current.lines)) {
+        sections.push(current);
+      }
+
+      while (headingStack.length > 0 && closesHeading(headingStack[headingStack.length - 1], heading)) {
+        headingStack.pop();
+      }
+      headingStack.push(heading);
+
+      current = { path: headingStack.map((h) => h.title), lines: [{ ...sourceLine, text: line.trim() }] };
+    } else {
+      current.lines.push({ ...sourceLine, text: line });
+    }
+
+    previousLine = line;
+  }
+
+  if (hasContent(current.lines)) {
+    sections.push(current);
+  }
+
+  return sections;
+};
+
+// Groups a section's lines into units that must not be split: paragraphs,
+// runs of procedure steps (including their wrapped continuation lines) and tables
+const splitIntoUnits = (lines: SourceLine[]): Unit[] => {
+  const units: Unit[] = [];
+  let buffer: SourceLine[] = [];
+  let inSteps = false;
+  let inTable = false;
+
+  const flush = () => {
+    if (hasContent(buffer)) {
+      units.push({
+        text: buffer.map((l) => l.text).join('\n').trim(),
+        page: buffer[0].page,
+        pageLabel: buffer[0].pageLabel,
+        table: inTable,
+      });
+    }
+    buffer = [];
+  };
+
+  for (const sourceLine of lines) {
+    const line = sourceLine.text;
+    const tableLine = isTableLine(line);
+    if (tableLine !== inTable) {
+      flush();
+      inTable = tableLine;
+      inSteps = false;
+    }
+    if (inTable) {
+      buffer.push(sourceLine);
+      continue;
+    }
+
+    if (!line.trim()) {
+      // Blank lines end paragraphs but not step runs
+      if (!inSteps) flush();
+      continue;
+    }
+
+    const step = isStepLine(line);
+    if (step && !inSteps) {
+      flush();
+      inSteps = true;
+    } else if (!step && inSteps && !/^\s/.test(line) && /[a-z]/.test(line)) {
+      // An unindented prose line ends the procedure; upper-case lines ("LAND ASAP") belong to it
+      flush();
+      inSteps = false;
+    }
+
+    buffer.push(sourceLine);
+  }
+  flush();
+
+  return units;
+};
+
+// Last-resort split for a single unit longer than hardMaxChars, at line boundaries.
+// The parts keep the unit's starting page.
+const splitOversizedUnit = (unit: Unit, maxChars: number): Unit[] => {
+  const parts: Unit[] = [];
+  let buffer = '';
+
+  for (const line of unit.text.split('\n')) {
+    if (buffer && buffer.length + line.length + 1 > maxChars) {
+      parts.push({ ...unit, text: buffer });
+      buffer = '';
+    }
+    buffer = buffer ? `${buffer}\n${line}` : line;
+  }
+  if (buffer) parts.push({ ...unit, text: buffer });
+
+  return parts;
+};
+
+// Splits a long table between rows, repeating the header and separator rows in every part
+const splitOversizedTable = (unit: Unit, maxChars: number): Unit[] => {
+  const [header, separator, ...rows] = unit.text.split('\n');
+  const parts: Unit[] = [];
+  let buffer: string[] = [];
+
+  const flushRows = () => {
+    if (buffer.length > 0) {
+      parts.push({ ...unit, text: [header, separator, ...buffer].join('\n') });
+    }
+    buffer = [];
+  };
+
+  for (const row of rows) {
+    if (buffer.length > 0 && [header, separator, ...buffer, row].join('\n').length > maxChars) {
+      flushRows();
+    }
+    buffer.push(row);
+  }
+  flushRows();
+
+  return parts.length > 0 ? parts : [unit];
+};
+
+// Page heuristic for text that arrived without page boundaries
+const estimatePage = (chunkText: string, chunkIndex: number): number => {
+  const pageMatch = chunkText.match(/\bpage\s+(\d+)\b/i) || chunkText.match(/\b(\d+)\s*$/m);
+  return pageMatch ? parseInt(pageMatch[1]) : Math.floor(chunkIndex / 5) + 1;
+};
+
+const chunkLines = (sourceLines: SourceLine[], options: Partial<ChunkOptions>): TextChunk[] => {
+  const { maxChars, hardMaxChars } = { ...DEFAULT_OPTIONS, ...options };
+  const chunks: TextChunk[] = [];
+
+  const sections = splitIntoSections(sourceLines);
+
+  sections.forEach((section, index) => {
+    // A heading immediately followed by a sub-heading has no body of its own;
+    // it is carried by the sub-heading's path. Anything else is kept.
+    const next = sections[index + 1];
+    if (
+      section.path.length > 0 &&
+      section.lines.filter((l) => l.text.trim()).length <= 1 &&
+      next && next.path.length > section.path.length &&
+      section.path.every((title, depth) => next.path[depth] === title)
+    ) {
+      return;
+    }
+
+    const units = splitIntoUnits(section.lines).flatMap((unit) => {
+      if (unit.text.length <= hardMaxChars) return [unit];
+      return unit.table ? splitOversizedTable(unit, maxChars) : splitOversizedUnit(unit, maxChars);
+    });
+
+    let buffer: Unit[] = [];
+    let length = 0;
+    const emit = () => {
+      if (buffer.length === 0) return;
+      const content = buffer.map((u) => u.text).join('\n\n').trim();
+      chunks.push({
+        type: buffer[0].table ? 'table' : 'text',
+        content,
+        page: buffer[0].page ?? estimatePage(content, chunks.length),
+        pageLabel: buffer[0].pageLabel,
+        section: section.path[section.path.length - 1] ?? null,
+        sectionPath: section.path,
+      });
+      buffer = [];
+      length = 0;
+    };
+
+    for (const unit of units) {
+      // Tables are never packed together with text
+      if (unit.table) {
+        // A heading directly above a table is already carried by the section path
+        if (buffer.length === 1 && section.path.length > 0 && buffer[0].text === section.lines[0].text) {
+          buffer = [];
+          length = 0;
+        }
+        emit();
+        buffer.push(unit);
+        emit();
+        continue;
+      }
+      if (buffer.length > 0 && length + unit.text.length + 2 > maxChars) {
+        emit();
+      }
+      buffer.push(unit);
+      length += unit.text.length + 2;
+    }
+    emit();
+  });
+
+  return chunks;
+};
+
+// Chunks text that carries page boundaries, so every chunk has its exact page
+export const splitPagesIntoChunks = (pages: PageText[], options: Partial<ChunkOptions> = {}): TextChunk[] => {
+  const runningLines = findRunningLines(pages);
+  const sourceLines = pages.flatMap((page) =>
+    page.text.split('\n').map((text) => ({
+      text,
+      page: page.pageNumber,
+      pageLabel: page.label ?? null,
+      running: runningLines.has(normalizeRunningLine(text)),
+    }))
+  );
+  return chunkLines(sourceLines, options);
+};
+
+// Chunks plain text with no page boundaries; pages are estimated
+export const splitTextIntoChunks = (text: string, options: Partial<ChunkOptions> = {}): TextChunk[] => {
+  const sourceLines = text.split('\n').map((line) => ({ text: line, page: null, pageLabel: null }));
+  return chunkLines(sourceLines, options);
+};
@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+import { splitPagesIntoChunks, splitTextIntoChunks, type PageText, type TextChunk } from './chunker.ts';
+import { createEmbeddingProvider } from '../_shared/embedding-provider.ts';
+import { tagFlightPhases } from '../_shared/flight-phases.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,7 +12,14 @@ const corsHeaders = {
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY')!;
+
+// Chunks sent per embeddings request and stored per insert
+const EMBEDDING_BATCH_SIZE = 64;
+// Stop starting new batches after this long so the function returns before the
+// edge runtime's wall-clock limit; the caller re-invokes to resume
+const TIME_BUDGET_MS = 110_000;
+// PostgREST returns at most 1000 rows per request
+const PAGE_FETCH_SIZE = 1000;
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -23,14 +33,26 @@ serve(async (req) => {
     if (!supabaseUrl || !supabaseServiceKey) {
       throw new Error('Missing Supabase configuration');
     }
-    if (!openAIApiKey) {
-      throw new Error('Missing OpenAI API key');
+
+    // Only the ingestion worker calls this, with the service key: the function
+    // rewrites any document's chunks, so it never acts for a signed-in user
+    const authToken = req.headers.get('authorization')?.replace('Bearer ', '');
+    if (authToken !== supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ error: 'Forbidden' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
+    const embeddingProvider = createEmbeddingProvider();
+
     const requestBody = await req.json();
     documentId = requestBody.documentId;
     const extractedText = requestBody.extractedText;
     const metadata = requestBody.metadata;
+    // Per-page text from pdf-extract, so chunks get exact page numbers.
+    // When not sent, it is read from document_pages (stored by ingest-document).
+    let pages: PageText[] = Array.isArray(requestBody.pages) ? requestBody.pages : [];
     
     if (!documentId) {
       throw new Error('Document ID is required');
@@ -38,11 +60,17 @@ serve(async (req) => {
 
     console.log(`Processing document: ${documentId}`);
     console.log('Extracted text length:', extractedText?.length || 0);
+    console.log('Pages received:', pages.length);
     console.log('PDF metadata:', metadata);
 
     // Initialize Supabase client with service role for admin access
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    if (pages.length === 0) {
+      pages = await loadStoredPages(supabase, documentId);
+      console.log('Pages loaded from document_pages:', pages.length);
+    }
+
     // Get document details
     const { data: document, error: docError } = await supabase
       .from('documents')
@@ -54,10 +82,9 @@ serve(async (req) => {
       throw new Error(`Failed to fetch document: ${docError.message}`);
     }
 
-    // Update status to processing
     await supabase
       .from('documents')
-      .update({ processing_status: 'processing' })
+      .update({ processing_status: 'chunking', processing_error: null })
       .eq('id', documentId);
 
     console.log(`Processing document: ${document.title} (${document.file_name})`);
@@ -71,88 +98,119 @@ Description: This is a ${document.document_type || 'aviation'} document that has
     console.log(`Processing ${extractedText ? 'extracted' : 'metadata-based'} content`);
     console.log(`Content length: ${textContent.length} characters`);
 
-    // Split text into chunks (approximately 1000 characters with overlap)
-    const chunks = splitTextIntoChunks(textContent, 1000, 200);
-    console.log(`Created ${chunks.length} text chunks`);
-
-    // Process chunks and create embeddings
-    const processedChunks = [];
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      
-      // Create embedding using OpenAI
-      const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: chunk.content,
-        }),
-      });
-
-      if (!embeddingResponse.ok) {
-        const errorText = await embeddingResponse.text();
-        console.error(`OpenAI API error for chunk ${i}:`, errorText);
-        throw new Error(`Failed to create embedding for chunk ${i}: ${embeddingResponse.status} ${errorText}`);
+    // Split text into chunks along the manual's section structure
+    const hasPageText = pages.some((page) => page.text?.trim());
+    const chunks = hasPageText ? splitPagesIntoChunks(pages) : splitTextIntoChunks(textContent);
+    console.log(`Created ${chunks.length} text chunks, embedding with ${embeddingProvider.name} provider`);
+
+    // Resume from the last checkpoint if this document was already partly
+    // ingested from the same content with the same embedding provider;
+    // otherwise start from scratch
+    const chunksHash = await hashChunks(chunks, embeddingProvider.name);
+    let startIndex = 0;
+    if (document.chunks_hash === chunksHash && document.processed_chunks > 0) {
+      startIndex = Math.min(document.processed_chunks, chunks.length);
+      console.log(`Resuming from chunk ${startIndex}/${chunks.length}`);
+    } else {
+      const { error: clearError } = await supabase
+        .from('document_chunks')
+        .delete()
+        .eq('document_id', documentId);
+
+      if (clearError) {
+        throw new Error(`Failed to clear previous chunks: ${clearError.message}`);
       }
+    }
 
-      const embeddingData = await embeddingResponse.json();
-      
-      if (!embeddingData.data || !embeddingData.data[0] || !embeddingData.data[0].embedding) {
-        throw new Error(`Invalid embedding response for chunk ${i}`);
+    await supabase
+      .from('documents')
+      .update({
+        processing_status: 'embedding',
+        total_chunks: chunks.length,
+        processed_chunks: startIndex,
+        chunks_hash: chunksHash,
+      })
+      .eq('id', documentId);
+
+    // Embed and store chunks in batches, checkpointing after each batch
+    const startedAt = Date.now();
+    let processedCount = startIndex;
+
+    while (processedCount < chunks.length) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        console.log(`Time budget reached at ${processedCount}/${chunks.length} chunks, caller should re-invoke`);
+        break;
       }
-      
-      const embedding = embeddingData.data[0].embedding;
 
-      // Store chunk in database
+      const batchEnd = Math.min(processedCount + EMBEDDING_BATCH_SIZE, chunks.length);
+      const batch = chunks.slice(processedCount, batchEnd);
+      const embeddings = await embeddingProvider.embed(batch.map((chunk) => chunk.content));
+
+      // Upsert so a batch retried after a partial failure does not duplicate chunks
       const { error: chunkError } = await supabase
         .from('document_chunks')
-        .insert({
-          document_id: documentId,
-          chunk_index: i,
-          content: chunk.content,
-          page_number: chunk.page,
-          section_title: chunk.section,
-          embedding: embedding,
-        });
+        .upsert(
+          batch.map((chunk, offset) => ({
+            document_id: documentId,
+            chunk_index: processedCount + offset,
+            content: chunk.content,
+            page_number: chunk.page,
+            page_label: chunk.pageLabel,
+            section_title: chunk.section,
+            section_path: chunk.sectionPath,
+            chunk_type: chunk.type,
+            flight_phases: tagFlightPhases(chunk.sectionPath, chunk.content),
+            embedding: embeddings[offset],
+          })),
+          { onConflict: 'document_id,chunk_index' }
+        );
 
       if (chunkError) {
-        console.error(`Failed to store chunk ${i}:`, chunkError);
-        throw new Error(`Failed to store chunk ${i}: ${chunkError.message}`);
+        console.error(`Failed to store chunks ${processedCount}-${batchEnd - 1}:`, chunkError);
+        throw new Error(`Failed to store chunks ${processedCount}-${batchEnd - 1}: ${chunkError.message}`);
       }
 
-      processedChunks.push({
-        index: i,
-        content: chunk.content.substring(0, 100) + '...',
-        page: chunk.page,
-      });
+      processedCount = batchEnd;
+
+      const { error: checkpointError } = await supabase
+        .from('documents')
+        .update({ processed_chunks: processedCount })
+        .eq('id', documentId);
 
-      // Log progress
-      if (i % 10 === 0) {
-        console.log(`Processed ${i + 1}/${chunks.length} chunks`);
+      if (checkpointError) {
+        throw new Error(`Failed to checkpoint progress: ${checkpointError.message}`);
       }
+
+      console.log(`Processed ${processedCount}/${chunks.length} chunks`);
     }
 
-    // Update document status to completed
-    await supabase
-      .from('documents')
-      .update({ 
-        processing_status: 'completed',
-        total_chunks: chunks.length,
-      })
-      .eq('id', documentId);
+    const completed = processedCount >= chunks.length;
+
+    if (completed) {
+      // Update document status to completed
+      await supabase
+        .from('documents')
+        .update({ processing_status: 'completed' })
+        .eq('id', documentId);
+
+      // Only now replace the previous revision in search
+      const { error: revisionError } = await supabase
+        .rpc('set_current_revision', { p_document_id: documentId });
 
-    console.log(`Successfully processed document ${documentId} with ${chunks.length} chunks`);
+      if (revisionError) {
+        throw new Error(`Failed to make revision current: ${revisionError.message}`);
+      }
+
+      console.log(`Successfully processed document ${documentId} with ${chunks.length} chunks`);
+    }
 
     return new Response(
       JSON.stringify({
         success: true,
         documentId,
-        chunksProcessed: chunks.length,
-        chunks: processedChunks,
+        completed,
+        processedChunks: processedCount,
+        totalChunks: chunks.length,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -166,7 +224,7 @@ Description: This is a ${document.document_type || 'aviation'} document that has
         const supabase = createClient(supabaseUrl, supabaseServiceKey);
         await supabase
           .from('documents')
-          .update({ processing_status: 'failed' })
+          .update({ processing_status: 'failed', processing_error: error.message })
           .eq('id', documentId);
       } catch (updateError) {
         console.error('Error updating document status to failed:', updateError);
@@ -187,48 +245,37 @@ Description: This is a ${document.document_type || 'aviation'} document that has
   }
 });
 
-function splitTextIntoChunks(text: string, chunkSize: number, overlap: number) {
-  const chunks = [];
-  let start = 0;
-  let chunkIndex = 0;
-
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    let chunkText = text.slice(start, end);
-
-    // Try to break at sentence boundaries
-    if (end < text.length) {
-      const lastSentence = chunkText.lastIndexOf('.');
-      const lastNewline = chunkText.lastIndexOf('\n');
-      const breakPoint = Math.max(lastSentence, lastNewline);
-      
-      if (breakPoint > start + chunkSize * 0.5) {
-        chunkText = chunkText.slice(0, breakPoint + 1);
-        end = start + breakPoint + 1;
-      }
-    }
-
-    // Extract page number from content (basic heuristic)
-    const pageMatch = chunkText.match(/\bpage\s+(\d+)\b/i) || chunkText.match(/\b(\d+)\s*$/m);
-    const pageNumber = pageMatch ? parseInt(pageMatch[1]) : Math.floor(chunkIndex / 5) + 1;
+async function loadStoredPages(supabase: SupabaseClient, documentId: string): Promise<PageText[]> {
+  const pages: PageText[] = [];
 
-    // Extract section title (look for headings)
-    const sectionMatch = chunkText.match(/^([A-Z][A-Z\s]{5,50})\n/m) || 
-                        chunkText.match(/^\d+\.?\s+([A-Z][A-Za-z\s]{5,50})\n/m);
-    const sectionTitle = sectionMatch ? sectionMatch[1].trim() : null;
+  for (let from = 0; ; from += PAGE_FETCH_SIZE) {
+    const { data, error } = await supabase
+      .from('document_pages')
+      .select('page_number, page_label, text')
+      .eq('document_id', documentId)
+      .order('page_number', { ascending: true })
+      .range(from, from + PAGE_FETCH_SIZE - 1);
 
-    chunks.push({
-      content: chunkText.trim(),
-      page: pageNumber,
-      section: sectionTitle,
-    });
+    if (error) {
+      throw new Error(`Failed to load document pages: ${error.message}`);
+    }
 
-    start = end - overlap;
-    chunkIndex++;
+    pages.push(...(data || []).map((page) => ({
+      pageNumber: page.page_number,
+      label: page.page_label,
+      text: page.text,
+    })));
 
-    // Prevent infinite loop
-    if (start >= end) break;
+    if (!data || data.length < PAGE_FETCH_SIZE) break;
   }
 
-  return chunks;
-}
\ No newline at end of file
+  return pages;
+}
+
+// SHA-256 of everything stored per chunk, plus the embedding provider: a
+// checkpoint is only valid for exactly the chunks it was made from
+async function hashChunks(chunks: TextChunk[], providerName: string): Promise<string> {
+  const fingerprint = JSON.stringify([providerName, chunks.map((chunk) => [chunk.type, chunk.page, chunk.pageLabel, chunk.sectionPath, chunk.content])]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fingerprint));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
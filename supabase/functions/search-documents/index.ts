@@ -1,6 +1,14 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.50.3';
+import { createEmbeddingProvider } from '../_shared/embedding-provider.ts';
+import { createQueryRewriter } from '../_shared/query-rewriter.ts';
+import { recentTurns, type ConversationTurn } from '../_shared/conversation.ts';
+import { isFlightPhase } from '../_shared/flight-phases.ts';
+import { createReranker } from '../_shared/reranker.ts';
+import { buildGlossary, expandQuery, type Glossary } from '../_shared/aviation-glossary.ts';
+import { recordRetrieval } from '../_shared/audit-log.ts';
+import { reciprocalRankFusion } from '../_shared/rank-fusion.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,7 +17,55 @@ const corsHeaders = {
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY')!;
+
+// Minimum cosine similarity (0..1) for a chunk to be returned
+const DEFAULT_MATCH_THRESHOLD = 0.3;
+// Each retriever over-fetches this many candidates per requested result before fusion
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+// Score multiplier for chunks tagged with the selected flight phase
+const PHASE_BOOST = 1.5;
+// Candidates retrieved and passed to the re-ranker, whatever the requested limit
+const RERANK_CANDIDATES = 30;
+// Shortest run of characters two chunks must share to be compared as overlapping
+const MIN_OVERLAP_CHARS = 100;
+// Two chunks of one document are near-duplicates when the text they share is
+// at least this fraction of the shorter one
+const NEAR_DUPLICATE_RATIO = 0.8;
+
+type SearchMode = 'vector' | 'keyword' | 'hybrid';
+const SEARCH_MODES: SearchMode[] = ['vector', 'keyword', 'hybrid'];
+
+// Which library a result came from: the user's own uploads or their organisation's
+type ResultScope = 'personal' | 'organization';
+
+interface ChunkResult {
+  id: string;
+  document_id: string;
+  content: string;
+  page_number: number | null;
+  page_label: string | null;
+  section_title: string | null;
+  section_path: string[] | null;
+  chunk_type: 'text' | 'table';
+  flight_phases: string[];
+  document_title: string;
+  document_type: string | null;
+  file_name: string;
+  revision_number: number;
+  effective_date: string | null;
+  is_current: boolean;
+  organization_id: string | null;
+  organization_name: string | null;
+  scope?: ResultScope;
+  similarity: number | null;
+  keyword_rank: number | null;
+  fused_score?: number;
+  // Score from retrieval alone: fused score in hybrid mode, else similarity or keyword rank
+  retrieval_score?: number;
+  // Re-ranker relevance (0..1); null when re-ranking was off or failed
+  rerank_score?: number | null;
+  phase_match?: boolean;
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -17,13 +73,33 @@ serve(async (req) => {
   }
 
   try {
-    const { query, limit = 5, documentTypes } = await req.json();
+    const {
+      query,
+      limit = 5,
+      documentTypes,
+      // Restrict the search to these documents; a superseded revision picked here is searched too
+      documentIds,
+      matchThreshold = DEFAULT_MATCH_THRESHOLD,
+      mode = 'hybrid',
+      includeSuperseded = false,
+      // Earlier chat turns, used to resolve follow-up questions
+      history = [],
+      // Selected flight phase: helps resolve follow-ups and boosts chunks tagged with it
+      phase = null,
+      // Over-fetch candidates and re-order them with the configured re-ranker
+      rerank = true,
+      // Saved conversation the question belongs to, linked from the audit log
+      conversationId = null,
+    } = await req.json();
     
     if (!query) {
       throw new Error('Search query is required');
     }
+    if (!SEARCH_MODES.includes(mode)) {
+      throw new Error(`Invalid search mode: ${mode}`);
+    }
 
-    console.log(`Searching for: "${query}"`);
+    const searchQuery = await standaloneQuery(query, phase, recentTurns(history));
 
     // Get user token from authorization header
     const authToken = req.headers.get('authorization')?.replace('Bearer ', '');
@@ -37,125 +113,64 @@ serve(async (req) => {
       },
     });
 
-    // Create embedding for the search query
-    const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: query,
-      }),
-    });
+    // Abbreviations and synonyms are searched alongside the question
+    const { expandedQuery, expansions } = expandQuery(searchQuery, await loadGlossary(supabase));
 
-    if (!embeddingResponse.ok) {
-      throw new Error('Failed to create search embedding');
-    }
+    console.log(`Searching for: "${expandedQuery}" (mode: ${mode})`);
 
-    const embeddingData = await embeddingResponse.json();
-    const queryEmbedding = embeddingData.data[0].embedding;
-
-    // Build the SQL query for vector similarity search
-    let sqlQuery = `
-      SELECT 
-        dc.id,
-        dc.content,
-        dc.page_number,
-        dc.section_title,
-        d.title as document_title,
-        d.document_type,
-        d.file_name,
-        (dc.embedding <-> $1::vector) as similarity
-      FROM document_chunks dc
-      JOIN documents d ON dc.document_id = d.id
-      WHERE d.processing_status = 'completed'
-    `;
-
-    const queryParams = [JSON.stringify(queryEmbedding)];
-
-    // Filter by document types if specified
-    if (documentTypes && documentTypes.length > 0) {
-      sqlQuery += ` AND d.document_type = ANY($${queryParams.length + 1})`;
-      queryParams.push(documentTypes);
-    }
+    const types = documentTypes?.length ? documentTypes : null;
+    const ids = documentIds?.length ? documentIds : null;
+    const poolSize = rerank ? Math.max(limit, RERANK_CANDIDATES) : limit;
+    const candidateCount = mode === 'hybrid' ? Math.max(poolSize, limit * HYBRID_CANDIDATE_MULTIPLIER) : poolSize;
 
-    sqlQuery += `
-      ORDER BY dc.embedding <-> $1::vector
-      LIMIT $${queryParams.length + 1}
-    `;
-    queryParams.push(limit);
-
-    // Execute the search
-    const { data: searchResults, error: searchError } = await supabase
-      .rpc('search_similar_chunks', {
-        query_embedding: queryEmbedding,
-        match_threshold: 0.8,
-        match_count: limit,
-        document_types: documentTypes,
-      });
-
-    // If the RPC doesn't exist, fall back to direct query
-    if (searchError && searchError.message.includes('function search_similar_chunks')) {
-      console.log('Using fallback search method');
-      
-      // Simple text search as fallback
-      let fallbackQuery = supabase
-        .from('document_chunks')
-        .select(`
-          id,
-          content,
-          page_number,
-          section_title,
-          documents!inner(title, document_type, file_name)
-        `)
-        .textSearch('content', query)
-        .eq('documents.processing_status', 'completed')
-        .limit(limit);
-
-      if (documentTypes && documentTypes.length > 0) {
-        fallbackQuery = fallbackQuery.in('documents.document_type', documentTypes);
-      }
+    const [vectorResults, keywordResults] = await Promise.all([
+      mode === 'keyword' ? [] : vectorSearch(supabase, expandedQuery, candidateCount, matchThreshold, types, ids, includeSuperseded),
+      mode === 'vector' ? [] : keywordSearch(supabase, expandedQuery, candidateCount, types, ids, includeSuperseded),
+    ]);
 
-      const { data: fallbackResults, error: fallbackError } = await fallbackQuery;
+    const retrieved = (mode === 'hybrid'
+      ? reciprocalRankFusion([vectorResults, keywordResults])
+      : [...vectorResults, ...keywordResults])
+      .map((chunk) => ({
+        ...chunk,
+        retrieval_score: chunk.fused_score ?? chunk.similarity ?? chunk.keyword_rank ?? 0,
+        rerank_score: null,
+      }));
 
-      if (fallbackError) {
-        throw new Error(`Search failed: ${fallbackError.message}`);
-      }
+    const candidates = dropOverlaps(rerank ? await rerankCandidates(expandedQuery, retrieved.slice(0, poolSize)) : retrieved);
 
-      const formattedResults = fallbackResults?.map(chunk => ({
-        id: chunk.id,
-        content: chunk.content,
-        page_number: chunk.page_number,
-        section_title: chunk.section_title,
-        document_title: chunk.documents.title,
-        document_type: chunk.documents.document_type,
-        file_name: chunk.documents.file_name,
-        similarity: 0.5, // Default similarity for text search
-      })) || [];
-
-      return new Response(
-        JSON.stringify({
-          results: formattedResults,
-          query,
-          total: formattedResults.length,
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const rankedResults = (isFlightPhase(phase) ? boostPhase(candidates, phase) : candidates).slice(0, limit);
 
-    if (searchError) {
-      throw new Error(`Search failed: ${searchError.message}`);
-    }
+    // RLS returns both libraries; label each result with the one it came from
+    const searchResults = rankedResults.map((chunk) => ({
+      ...chunk,
+      scope: (chunk.organization_id ? 'organization' : 'personal') as ResultScope,
+    }));
 
-    console.log(`Found ${searchResults?.length || 0} similar chunks`);
+    console.log(`Found ${searchResults.length} chunks (vector: ${vectorResults.length}, keyword: ${keywordResults.length}, candidates: ${candidates.length}, phase: ${phase})`);
+
+    // Recorded here rather than by answer-question so the audit log has the
+    // question and what was retrieved even if it is stopped before answering
+    const retrievalId = await recordRetrieval(authToken, {
+      query,
+      phase: isFlightPhase(phase) ? phase : null,
+      conversationId: await visibleConversationId(supabase, conversationId),
+      chunks: searchResults,
+    });
 
     return new Response(
       JSON.stringify({
-        results: searchResults || [],
+        results: searchResults,
+        // Passed to answer-question, which answers from this retrieval
+        retrievalId,
         query,
-        total: searchResults?.length || 0,
+        // The query actually searched, after resolving it against the conversation
+        searchQuery,
+        // Dictionary expansions searched as well, for "also searched for..."
+        expansions,
+        mode,
+        reranked: searchResults.some((chunk) => chunk.rerank_score !== null),
+        total: searchResults.length,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -170,4 +185,190 @@ serve(async (req) => {
       }
     );
   }
-});
\ No newline at end of file
+});
+
+// A follow-up question rewritten to stand on its own. Rewriting is only an
+// aid to retrieval, so a failure falls back to the question as asked.
+async function standaloneQuery(query: string, phase: string | null, history: ConversationTurn[]): Promise<string> {
+  if (history.length === 0) {
+    return query;
+  }
+
+  try {
+    const rewriter = createQueryRewriter();
+    const rewritten = await rewriter.rewrite({ query, phase, history });
+    if (rewritten !== query) {
+      console.log(`Rewrote "${query}" as "${rewritten}" (${rewriter.name})`);
+    }
+    return rewritten;
+  } catch (error) {
+    console.error('Query rewriting failed, searching the question as asked:', error);
+    return query;
+  }
+}
+
+// The conversation id if the caller can see it (RLS), otherwise null
+async function visibleConversationId(supabase: SupabaseClient, conversationId: string | null): Promise<string | null> {
+  if (!conversationId) {
+    return null;
+  }
+
+  const { data } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+// The built-in dictionary plus the terms of the user's organisation (RLS
+// limits the table to it). Without the organisation's terms the built-in
+// dictionary still applies.
+async function loadGlossary(supabase: SupabaseClient): Promise<Glossary> {
+  const { data, error } = await supabase
+    .from('organization_glossary_terms')
+    .select('term, expansions');
+
+  if (error) {
+    console.error('Failed to load organization glossary, using the built-in one:', error);
+    return buildGlossary();
+  }
+
+  return buildGlossary(data || []);
+}
+
+async function vectorSearch(
+  supabase: SupabaseClient,
+  query: string,
+  count: number,
+  matchThreshold: number,
+  documentTypes: string[] | null,
+  documentIds: string[] | null,
+  includeSuperseded: boolean,
+): Promise<ChunkResult[]> {
+  // Embed the query with the same provider used at ingestion
+  const [queryEmbedding] = await createEmbeddingProvider().embed([query]);
+
+  // Cosine similarity search, see search_similar_chunks migration
+  const { data, error } = await supabase
+    .rpc('search_similar_chunks', {
+      query_embedding: queryEmbedding,
+      match_threshold: matchThreshold,
+      match_count: count,
+      document_types: documentTypes,
+      include_superseded: includeSuperseded,
+      document_ids: documentIds,
+    });
+
+  if (error) {
+    throw new Error(`Vector search failed: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({ ...row, keyword_rank: null }));
+}
+
+async function keywordSearch(
+  supabase: SupabaseClient,
+  query: string,
+  count: number,
+  documentTypes: string[] | null,
+  documentIds: string[] | null,
+  includeSuperseded: boolean,
+): Promise<ChunkResult[]> {
+  const { data, error } = await supabase
+    .rpc('search_keyword_chunks', {
+      query_text: query,
+      match_count: count,
+      document_types: documentTypes,
+      include_superseded: includeSuperseded,
+      document_ids: documentIds,
+    });
+
+  if (error) {
+    throw new Error(`Keyword search failed: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({ ...row, similarity: null }));
+}
+
+// Re-orders candidates by re-ranker score, keeping retrieval order for ties.
+// Like query rewriting, re-ranking only refines retrieval: on failure the
+// candidates keep their retrieval order and rerank_score stays null.
+async function rerankCandidates(query: string, candidates: ChunkResult[]): Promise<ChunkResult[]> {
+  if (candidates.length === 0) {
+    return candidates;
+  }
+
+  try {
+    const reranker = createReranker();
+    const scores = await reranker.rerank(query, candidates.map((chunk) => ({
+      content: chunk.content,
+      sectionTitle: chunk.section_title,
+    })));
+    console.log(`Re-ranked ${candidates.length} candidates (${reranker.name})`);
+
+    return candidates
+      .map((chunk, index) => ({ chunk: { ...chunk, rerank_score: scores[index] }, index }))
+      .sort((a, b) => b.chunk.rerank_score - a.chunk.rerank_score || a.index - b.index)
+      .map(({ chunk }) => chunk);
+  } catch (error) {
+    console.error('Re-ranking failed, keeping retrieval order:', error);
+    return candidates;
+  }
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Length of the longest end of `first` that `second` starts with, as left by
+// a chunker that repeats the end of the previous chunk
+function sharedSpan(first: string, second: string): number {
+  if (second.length < MIN_OVERLAP_CHARS) return 0;
+  const start = second.slice(0, MIN_OVERLAP_CHARS);
+
+  for (let index = first.indexOf(start); index !== -1; index = first.indexOf(start, index + 1)) {
+    if (second.startsWith(first.slice(index))) {
+      return first.length - index;
+    }
+  }
+  return 0;
+}
+
+// Chunks from the original chunker repeat the last 200 characters of the
+// previous chunk, and a chunk is sometimes contained in a longer neighbour.
+// Keeps the higher-ranked of two chunks from one document that are
+// near-duplicates, so the answer does not spend passages on the same text
+// twice; neighbours that only share their boundary are both kept.
+function dropOverlaps(ranked: ChunkResult[]): ChunkResult[] {
+  const kept: { chunk: ChunkResult; text: string }[] = [];
+
+  for (const chunk of ranked) {
+    const text = normalizeText(chunk.content);
+    const overlaps = kept.some((other) => {
+      if (other.chunk.document_id !== chunk.document_id) return false;
+      const [shorter, longer] = text.length <= other.text.length ? [text, other.text] : [other.text, text];
+      if (longer.includes(shorter)) return true;
+      const shared = Math.max(sharedSpan(text, other.text), sharedSpan(other.text, text));
+      return shared >= shorter.length * NEAR_DUPLICATE_RATIO;
+    });
+
+    if (!overlaps) {
+      kept.push({ chunk, text });
+    }
+  }
+
+  return kept.map(({ chunk }) => chunk);
+}
+
+// Re-orders results so chunks tagged with the selected phase move up. A
+// multiplier rather than a filter: a strong match from another phase (or an
+// untagged chunk) still outranks a weak one from the current phase.
+function boostPhase(results: ChunkResult[], phase: string): ChunkResult[] {
+  const score = (chunk: ChunkResult) => chunk.rerank_score ?? chunk.retrieval_score ?? 0;
+
+  return results
+    .map((chunk) => ({ ...chunk, phase_match: chunk.flight_phases?.includes(phase) ?? false }))
+    .map((chunk, index) => ({ chunk, index, score: score(chunk) * (chunk.phase_match ? PHASE_BOOST : 1) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ chunk }) => chunk);
+}
@@ -0,0 +1,46 @@
+-- Vector similarity search over document chunks.
+-- Runs as SECURITY INVOKER so the caller's RLS policies on documents and
+-- document_chunks decide which chunks are visible.
+CREATE OR REPLACE FUNCTION public.search_similar_chunks(
+  query_embedding VECTOR(1536),
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.section_title,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    1 - (dc.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  WHERE d.processing_status = 'completed'
+    AND dc.embedding IS NOT NULL
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND 1 - (dc.embedding <=> query_embedding) >= match_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_similar_chunks(VECTOR, FLOAT, INTEGER, TEXT[]) TO authenticated;
@@ -0,0 +1,59 @@
+-- Full-text search over document chunks for exact aviation tokens
+-- (ECAM titles, MEL item numbers, "VAPP", "ENG 1 FIRE") that embeddings miss.
+-- The 'simple' configuration keeps numbers and abbreviations unstemmed.
+ALTER TABLE public.document_chunks
+ADD COLUMN content_tsv TSVECTOR
+GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+CREATE INDEX idx_document_chunks_content_tsv ON public.document_chunks USING gin (content_tsv);
+
+-- Keyword search ranked with cover density (ts_rank_cd, normalised to 0..1).
+-- Query terms are OR-ed so a chunk matching most of the tokens still ranks,
+-- rather than requiring every word to appear.
+CREATE OR REPLACE FUNCTION public.search_keyword_chunks(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  keyword_rank FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', query_text))) AS lexeme
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.section_title,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    ts_rank_cd(dc.content_tsv, query.tsq, 32) AS keyword_rank
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  CROSS JOIN query
+  WHERE query.tsq IS NOT NULL
+    AND d.processing_status = 'completed'
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND dc.content_tsv @@ query.tsq
+  ORDER BY keyword_rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_keyword_chunks(TEXT, INTEGER, TEXT[]) TO authenticated;
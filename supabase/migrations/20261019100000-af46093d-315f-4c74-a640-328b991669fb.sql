@@ -0,0 +1,102 @@
+-- Full heading path of each chunk within its manual,
+-- e.g. {"PRO-ABN-26 Fire Protection", "ENG 1(2) FIRE (IN FLIGHT)"}
+ALTER TABLE public.document_chunks ADD COLUMN section_path TEXT[];
+
+-- Return the section path from both search functions
+DROP FUNCTION IF EXISTS public.search_similar_chunks(VECTOR, FLOAT, INTEGER, TEXT[]);
+DROP FUNCTION IF EXISTS public.search_keyword_chunks(TEXT, INTEGER, TEXT[]);
+
+CREATE FUNCTION public.search_similar_chunks(
+  query_embedding VECTOR(1536),
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  section_path TEXT[],
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.section_title,
+    dc.section_path,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    1 - (dc.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  WHERE d.processing_status = 'completed'
+    AND dc.embedding IS NOT NULL
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND 1 - (dc.embedding <=> query_embedding) >= match_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE FUNCTION public.search_keyword_chunks(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  section_title TEXT,
+  section_path TEXT[],
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  keyword_rank FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', query_text))) AS lexeme
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.section_title,
+    dc.section_path,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    ts_rank_cd(dc.content_tsv, query.tsq, 32) AS keyword_rank
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  CROSS JOIN query
+  WHERE query.tsq IS NOT NULL
+    AND d.processing_status = 'completed'
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND dc.content_tsv @@ query.tsq
+  ORDER BY keyword_rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_similar_chunks(VECTOR, FLOAT, INTEGER, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_keyword_chunks(TEXT, INTEGER, TEXT[]) TO authenticated;
@@ -0,0 +1,12 @@
+-- Ingestion progress: chunks embedded and stored so far, out of total_chunks.
+-- process-pdf checkpoints this after every batch and resumes from it.
+ALTER TABLE public.documents ADD COLUMN processed_chunks INTEGER NOT NULL DEFAULT 0;
+
+-- Completed documents from before checkpointing are fully processed
+UPDATE public.documents
+SET processed_chunks = COALESCE(total_chunks, 0)
+WHERE processing_status = 'completed';
+
+-- One row per chunk position, so a retried batch can be upserted
+ALTER TABLE public.document_chunks
+ADD CONSTRAINT document_chunks_document_id_chunk_index_key UNIQUE (document_id, chunk_index);
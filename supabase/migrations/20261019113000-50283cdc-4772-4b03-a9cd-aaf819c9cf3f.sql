@@ -0,0 +1,198 @@
+-- Revision tracking for manuals. Every upload of the same manual shares a
+-- manual_id (the id of its first upload); exactly one completed revision per
+-- manual is current and searched by default. Superseded revisions are kept
+-- for audit.
+ALTER TABLE public.documents
+ADD COLUMN manual_id UUID,
+ADD COLUMN revision_number INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN effective_date DATE,
+ADD COLUMN is_current BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN superseded_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing uploads are each the first and current revision of their own manual
+UPDATE public.documents SET manual_id = id, is_current = true;
+
+ALTER TABLE public.documents ALTER COLUMN manual_id SET NOT NULL;
+ALTER TABLE public.documents
+ADD CONSTRAINT documents_manual_id_revision_number_key UNIQUE (manual_id, revision_number);
+
+CREATE INDEX idx_documents_manual_id ON public.documents(manual_id);
+
+-- A new upload with no manual_id starts a new manual
+CREATE OR REPLACE FUNCTION public.set_document_manual_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.manual_id = COALESCE(NEW.manual_id, NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_documents_manual_id
+BEFORE INSERT ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.set_document_manual_id();
+
+-- Make a processed revision the current one and supersede the others.
+-- Called by process-pdf once ingestion completes, so search keeps using the
+-- previous revision until the new one is ready.
+CREATE OR REPLACE FUNCTION public.set_current_revision(p_document_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_manual_id UUID;
+BEGIN
+  SELECT manual_id INTO v_manual_id FROM public.documents WHERE id = p_document_id;
+
+  UPDATE public.documents
+  SET is_current = false, superseded_at = now()
+  WHERE manual_id = v_manual_id AND id <> p_document_id AND is_current;
+
+  UPDATE public.documents
+  SET is_current = true, superseded_at = NULL
+  WHERE id = p_document_id;
+END;
+$$;
+
+-- Deleting the current revision reinstates the latest remaining completed one
+CREATE OR REPLACE FUNCTION public.reinstate_previous_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.is_current THEN
+    UPDATE public.documents
+    SET is_current = true, superseded_at = NULL
+    WHERE id = (
+      SELECT id FROM public.documents
+      WHERE manual_id = OLD.manual_id AND processing_status = 'completed'
+      ORDER BY revision_number DESC
+      LIMIT 1
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reinstate_previous_revision_on_delete
+AFTER DELETE ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.reinstate_previous_revision();
+
+-- Search current revisions only, unless superseded ones are asked for
+DROP FUNCTION IF EXISTS public.search_similar_chunks(VECTOR, FLOAT, INTEGER, TEXT[]);
+DROP FUNCTION IF EXISTS public.search_keyword_chunks(TEXT, INTEGER, TEXT[]);
+
+CREATE FUNCTION public.search_similar_chunks(
+  query_embedding VECTOR(1536),
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL,
+  include_superseded BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  page_label TEXT,
+  section_title TEXT,
+  section_path TEXT[],
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  revision_number INTEGER,
+  effective_date DATE,
+  is_current BOOLEAN,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.page_label,
+    dc.section_title,
+    dc.section_path,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    d.revision_number,
+    d.effective_date,
+    d.is_current,
+    1 - (dc.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  WHERE d.processing_status = 'completed'
+    AND (include_superseded OR d.is_current)
+    AND dc.embedding IS NOT NULL
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND 1 - (dc.embedding <=> query_embedding) >= match_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE FUNCTION public.search_keyword_chunks(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL,
+  include_superseded BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  page_label TEXT,
+  section_title TEXT,
+  section_path TEXT[],
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  revision_number INTEGER,
+  effective_date DATE,
+  is_current BOOLEAN,
+  keyword_rank FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', query_text))) AS lexeme
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.page_label,
+    dc.section_title,
+    dc.section_path,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    d.revision_number,
+    d.effective_date,
+    d.is_current,
+    ts_rank_cd(dc.content_tsv, query.tsq, 32) AS keyword_rank
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  CROSS JOIN query
+  WHERE query.tsq IS NOT NULL
+    AND d.processing_status = 'completed'
+    AND (include_superseded OR d.is_current)
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND dc.content_tsv @@ query.tsq
+  ORDER BY keyword_rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_similar_chunks(VECTOR, FLOAT, INTEGER, TEXT[], BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_keyword_chunks(TEXT, INTEGER, TEXT[], BOOLEAN) TO authenticated;
@@ -0,0 +1,63 @@
+-- Background ingestion: the upload only stores the file and enqueues a job;
+-- the ingest-document worker extracts, chunks and embeds it in steps.
+
+-- Why the last ingestion attempt failed, shown next to the document
+ALTER TABLE public.documents ADD COLUMN processing_error TEXT;
+
+-- Per-page extraction output, so the chunking step can run (and resume)
+-- without re-extracting the PDF
+CREATE TABLE public.document_pages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  page_label TEXT,
+  text TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, page_number)
+);
+
+ALTER TABLE public.document_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pages of their own documents" 
+ON public.document_pages 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.documents 
+  WHERE documents.id = document_pages.document_id 
+  AND documents.user_id = auth.uid()
+));
+
+-- One job per document. Only the worker (service role) writes to it.
+CREATE TABLE public.ingestion_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL UNIQUE REFERENCES public.documents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  -- Set while a worker invocation owns the job
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view jobs for their own documents" 
+ON public.ingestion_jobs 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.documents 
+  WHERE documents.id = ingestion_jobs.document_id 
+  AND documents.user_id = auth.uid()
+));
+
+CREATE INDEX idx_ingestion_jobs_status ON public.ingestion_jobs(status);
+
+CREATE TRIGGER update_ingestion_jobs_updated_at
+BEFORE UPDATE ON public.ingestion_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stream document status changes to the documents page
+ALTER TABLE public.documents REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.documents;
@@ -0,0 +1,11 @@
+-- OCR quality and extraction progress for scanned manuals.
+
+-- Tesseract mean confidence (0-100) for OCR'd pages; NULL for pages with a text layer
+ALTER TABLE public.document_pages ADD COLUMN ocr_confidence REAL;
+
+-- ingest-document extracts large manuals a slice of pages at a time
+ALTER TABLE public.documents ADD COLUMN page_count INTEGER;
+ALTER TABLE public.documents ADD COLUMN extracted_pages INTEGER NOT NULL DEFAULT 0;
+
+-- Pages whose OCR confidence is too low to trust, flagged in the document list
+ALTER TABLE public.documents ADD COLUMN low_confidence_pages INTEGER[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,407 @@
+-- Organisation-shared libraries. An organisation is the airline named on
+-- members' profiles; documents with an organization_id are shared with every
+-- member. Librarians upload, retire and delete shared manuals and manage roles.
+
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Normalised airline name that profiles are matched on
+  slug TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One organisation per user, following profiles.airline
+CREATE TABLE public.organization_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'librarian')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_organization_members_organization_id ON public.organization_members(organization_id);
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_organization_members_updated_at
+BEFORE UPDATE ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership checks for RLS policies. SECURITY DEFINER so policies on
+-- organization_members can use them without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_librarian(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND role = 'librarian'
+  );
+$$;
+
+-- Keep membership in step with profiles.airline. The first member of a new
+-- organisation becomes its librarian so it can be administered.
+CREATE OR REPLACE FUNCTION public.sync_organization_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_slug TEXT := lower(btrim(NEW.airline));
+  v_organization_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND lower(btrim(OLD.airline)) IS NOT DISTINCT FROM v_slug THEN
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.organization_members WHERE user_id = NEW.user_id;
+
+  IF v_slug IS NULL OR v_slug = '' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.organizations (name, slug)
+  VALUES (btrim(NEW.airline), v_slug)
+  ON CONFLICT (slug) DO NOTHING;
+
+  SELECT id INTO v_organization_id FROM public.organizations WHERE slug = v_slug;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (
+    v_organization_id,
+    NEW.user_id,
+    CASE WHEN EXISTS (
+      SELECT 1 FROM public.organization_members WHERE organization_id = v_organization_id
+    ) THEN 'member' ELSE 'librarian' END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profiles_organization_membership
+AFTER INSERT OR UPDATE OF airline ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_organization_membership();
+
+-- Backfill organisations from existing profiles; the earliest profile of each
+-- organisation becomes its librarian
+INSERT INTO public.organizations (name, slug)
+SELECT DISTINCT ON (lower(btrim(airline))) btrim(airline), lower(btrim(airline))
+FROM public.profiles
+WHERE btrim(COALESCE(airline, '')) <> ''
+ORDER BY lower(btrim(airline)), created_at;
+
+INSERT INTO public.organization_members (organization_id, user_id)
+SELECT o.id, p.user_id
+FROM public.profiles p
+JOIN public.organizations o ON o.slug = lower(btrim(p.airline));
+
+UPDATE public.organization_members
+SET role = 'librarian'
+WHERE user_id IN (
+  SELECT DISTINCT ON (o.id) p.user_id
+  FROM public.profiles p
+  JOIN public.organizations o ON o.slug = lower(btrim(p.airline))
+  ORDER BY o.id, p.created_at
+);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization" 
+ON public.organizations 
+FOR SELECT 
+USING (public.is_organization_member(id));
+
+CREATE POLICY "Members can view their organization's members" 
+ON public.organization_members 
+FOR SELECT 
+USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Librarians can change member roles" 
+ON public.organization_members 
+FOR UPDATE 
+USING (public.is_organization_librarian(organization_id))
+WITH CHECK (public.is_organization_librarian(organization_id));
+
+-- Member names for the organisation screen, without exposing other profile fields
+CREATE OR REPLACE FUNCTION public.get_organization_members()
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  role TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT m.user_id, p.full_name, m.role
+  FROM public.organization_members m
+  JOIN public.organization_members me ON me.organization_id = m.organization_id AND me.user_id = auth.uid()
+  LEFT JOIN public.profiles p ON p.user_id = m.user_id
+  ORDER BY m.role DESC, p.full_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_organization_members() TO authenticated;
+
+-- Shared documents. NULL organization_id means a personal document.
+-- Retired manuals stay listed for librarians but are no longer searched.
+ALTER TABLE public.documents
+ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+ADD COLUMN retired_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_documents_organization_id ON public.documents(organization_id);
+
+DROP POLICY "Users can view their own documents" ON public.documents;
+DROP POLICY "Users can create their own documents" ON public.documents;
+DROP POLICY "Users can update their own documents" ON public.documents;
+DROP POLICY "Users can delete their own documents" ON public.documents;
+
+CREATE POLICY "Users can view their own and organization documents" 
+ON public.documents 
+FOR SELECT 
+USING (
+  auth.uid() = user_id
+  OR (organization_id IS NOT NULL AND public.is_organization_member(organization_id))
+);
+
+CREATE POLICY "Users can create personal documents and librarians organization documents" 
+ON public.documents 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND (organization_id IS NULL OR public.is_organization_librarian(organization_id))
+);
+
+CREATE POLICY "Users can update their personal documents and librarians organization documents" 
+ON public.documents 
+FOR UPDATE 
+USING (
+  (organization_id IS NULL AND auth.uid() = user_id)
+  OR (organization_id IS NOT NULL AND public.is_organization_librarian(organization_id))
+)
+WITH CHECK (
+  (organization_id IS NULL AND auth.uid() = user_id)
+  OR (organization_id IS NOT NULL AND public.is_organization_librarian(organization_id))
+);
+
+CREATE POLICY "Users can delete their personal documents and librarians organization documents" 
+ON public.documents 
+FOR DELETE 
+USING (
+  (organization_id IS NULL AND auth.uid() = user_id)
+  OR (organization_id IS NOT NULL AND public.is_organization_librarian(organization_id))
+);
+
+DROP POLICY "Users can view chunks of their own documents" ON public.document_chunks;
+
+CREATE POLICY "Users can view chunks of their own and organization documents" 
+ON public.document_chunks 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.documents 
+  WHERE documents.id = document_chunks.document_id 
+  AND (
+    documents.user_id = auth.uid()
+    OR (documents.organization_id IS NOT NULL AND public.is_organization_member(documents.organization_id))
+  )
+));
+
+DROP POLICY "Users can view pages of their own documents" ON public.document_pages;
+
+CREATE POLICY "Users can view pages of their own and organization documents" 
+ON public.document_pages 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.documents 
+  WHERE documents.id = document_pages.document_id 
+  AND (
+    documents.user_id = auth.uid()
+    OR (documents.organization_id IS NOT NULL AND public.is_organization_member(documents.organization_id))
+  )
+));
+
+-- Shared files live under organizations/<organization id>/ in the documents bucket
+CREATE POLICY "Members can view organization documents" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'documents'
+  AND (storage.foldername(name))[1] = 'organizations'
+  AND public.is_organization_member(((storage.foldername(name))[2])::uuid)
+);
+
+CREATE POLICY "Librarians can upload organization documents" 
+ON storage.objects 
+FOR INSERT 
+WITH CHECK (
+  bucket_id = 'documents'
+  AND (storage.foldername(name))[1] = 'organizations'
+  AND public.is_organization_librarian(((storage.foldername(name))[2])::uuid)
+);
+
+CREATE POLICY "Librarians can delete organization documents" 
+ON storage.objects 
+FOR DELETE 
+USING (
+  bucket_id = 'documents'
+  AND (storage.foldername(name))[1] = 'organizations'
+  AND public.is_organization_librarian(((storage.foldername(name))[2])::uuid)
+);
+
+-- Search both libraries (RLS decides what is visible), skip retired manuals
+-- and return the owning organisation so results can be labelled
+DROP FUNCTION IF EXISTS public.search_similar_chunks(VECTOR, FLOAT, INTEGER, TEXT[], BOOLEAN);
+DROP FUNCTION IF EXISTS public.search_keyword_chunks(TEXT, INTEGER, TEXT[], BOOLEAN);
+
+CREATE FUNCTION public.search_similar_chunks(
+  query_embedding VECTOR(1536),
+  match_threshold FLOAT DEFAULT 0.3,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL,
+  include_superseded BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  page_label TEXT,
+  section_title TEXT,
+  section_path TEXT[],
+  chunk_type TEXT,
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  revision_number INTEGER,
+  effective_date DATE,
+  is_current BOOLEAN,
+  organization_id UUID,
+  organization_name TEXT,
+  similarity FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.page_label,
+    dc.section_title,
+    dc.section_path,
+    dc.chunk_type,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    d.revision_number,
+    d.effective_date,
+    d.is_current,
+    d.organization_id,
+    o.name AS organization_name,
+    1 - (dc.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  LEFT JOIN public.organizations o ON o.id = d.organization_id
+  WHERE d.processing_status = 'completed'
+    AND d.retired_at IS NULL
+    AND (include_superseded OR d.is_current)
+    AND dc.embedding IS NOT NULL
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND 1 - (dc.embedding <=> query_embedding) >= match_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE FUNCTION public.search_keyword_chunks(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL,
+  include_superseded BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  page_label TEXT,
+  section_title TEXT,
+  section_path TEXT[],
+  chunk_type TEXT,
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  revision_number INTEGER,
+  effective_date DATE,
+  is_current BOOLEAN,
+  organization_id UUID,
+  organization_name TEXT,
+  keyword_rank FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', query_text))) AS lexeme
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.page_label,
+    dc.section_title,
+    dc.section_path,
+    dc.chunk_type,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    d.revision_number,
+    d.effective_date,
+    d.is_current,
+    d.organization_id,
+    o.name AS organization_name,
+    ts_rank_cd(dc.content_tsv, query.tsq, 32) AS keyword_rank
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  LEFT JOIN public.organizations o ON o.id = d.organization_id
+  CROSS JOIN query
+  WHERE query.tsq IS NOT NULL
+    AND d.processing_status = 'completed'
+    AND d.retired_at IS NULL
+    AND (include_superseded OR d.is_current)
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND dc.content_tsv @@ query.tsq
+  ORDER BY keyword_rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_similar_chunks(VECTOR, FLOAT, INTEGER, TEXT[], BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_keyword_chunks(TEXT, INTEGER, TEXT[], BOOLEAN) TO authenticated;
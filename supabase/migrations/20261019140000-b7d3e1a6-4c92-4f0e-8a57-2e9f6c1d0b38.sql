@@ -0,0 +1,137 @@
+-- Assistant conversations, so a session survives a refresh and can be
+-- reopened, renamed, deleted and searched later.
+
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.conversation_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Sources as shown under the answer (title, section, page, excerpt, ...)
+  sources JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Flight phase selected when the message was sent
+  flight_phase TEXT,
+  content_tsv TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_conversations_user_id_updated_at ON public.conversations(user_id, updated_at DESC);
+CREATE INDEX idx_conversation_messages_conversation_id ON public.conversation_messages(conversation_id, created_at);
+CREATE INDEX idx_conversation_messages_content_tsv ON public.conversation_messages USING gin (content_tsv);
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own conversations"
+ON public.conversations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own conversations"
+ON public.conversations
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own conversations"
+ON public.conversations
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own conversations"
+ON public.conversations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own conversation messages"
+ON public.conversation_messages
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Messages are append-only; they go when their conversation is deleted
+CREATE POLICY "Users can add messages to their own conversations"
+ON public.conversation_messages
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.id = conversation_messages.conversation_id
+    AND conversations.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_conversations_updated_at
+BEFORE UPDATE ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A new message moves its conversation to the top of the history list
+CREATE OR REPLACE FUNCTION public.touch_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.conversations SET updated_at = now() WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_conversation_on_message
+AFTER INSERT ON public.conversation_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_conversation();
+
+-- Conversation-level search. A conversation matches when its title contains
+-- the query or one of its messages contains every query term; the
+-- best-matching message is returned as a snippet. Runs as the caller, so RLS
+-- limits results to their own conversations.
+CREATE OR REPLACE FUNCTION public.search_conversations(
+  search_query TEXT,
+  match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  snippet TEXT,
+  rank FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('simple', search_query) AS tsq
+  ),
+  matches AS (
+    SELECT DISTINCT ON (cm.conversation_id)
+      cm.conversation_id,
+      cm.content,
+      ts_rank_cd(cm.content_tsv, query.tsq, 32) AS message_rank
+    FROM public.conversation_messages cm, query
+    WHERE cm.content_tsv @@ query.tsq
+    ORDER BY cm.conversation_id, message_rank DESC
+  )
+  SELECT
+    c.id,
+    c.title,
+    c.updated_at,
+    left(m.content, 200) AS snippet,
+    (COALESCE(m.message_rank, 0) + CASE WHEN c.title ILIKE '%' || search_query || '%' THEN 1 ELSE 0 END)::FLOAT AS rank
+  FROM public.conversations c
+  LEFT JOIN matches m ON m.conversation_id = c.id
+  WHERE m.conversation_id IS NOT NULL
+    OR c.title ILIKE '%' || search_query || '%'
+  ORDER BY rank DESC, c.updated_at DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_conversations(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,6 @@
+-- Answer confidence on saved assistant messages, so a reopened conversation
+-- shows the same labels as when it was asked. not_found marks answers that
+-- no manual content supports.
+ALTER TABLE public.conversation_messages
+ADD COLUMN confidence TEXT CHECK (confidence IN ('high', 'medium', 'low')),
+ADD COLUMN not_found BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,49 @@
+-- Organisation additions to the built-in abbreviation and synonym dictionary
+-- that search-documents expands queries with. A term the built-in dictionary
+-- already has is replaced; an empty expansions list switches it off.
+CREATE TABLE public.organization_glossary_terms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- As typed by pilots, e.g. "eng fail"; matched case-insensitively on whole words
+  term TEXT NOT NULL CHECK (btrim(term) <> ''),
+  expansions TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_organization_glossary_terms_term
+ON public.organization_glossary_terms(organization_id, lower(btrim(term)));
+
+CREATE TRIGGER update_organization_glossary_terms_updated_at
+BEFORE UPDATE ON public.organization_glossary_terms
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.organization_glossary_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's glossary"
+ON public.organization_glossary_terms
+FOR SELECT
+USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Librarians can add glossary terms"
+ON public.organization_glossary_terms
+FOR INSERT
+WITH CHECK (public.is_organization_librarian(organization_id));
+
+CREATE POLICY "Librarians can update glossary terms"
+ON public.organization_glossary_terms
+FOR UPDATE
+USING (public.is_organization_librarian(organization_id))
+WITH CHECK (public.is_organization_librarian(organization_id));
+
+CREATE POLICY "Librarians can delete glossary terms"
+ON public.organization_glossary_terms
+FOR DELETE
+USING (public.is_organization_librarian(organization_id));
+
+-- Expansions searched alongside the question, shown again when a
+-- conversation is reopened
+ALTER TABLE public.conversation_messages
+ADD COLUMN search_expansions TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,75 @@
+-- Audit trail of every question answered by the assistant, for safety and
+-- compliance review: what was asked, in which flight phase, which chunks were
+-- retrieved (with their scores) and what the answer was. Written only by the
+-- answer-question function with the service key; rows can never be changed
+-- or deleted afterwards.
+
+-- Reviewers (e.g. the safety department) read their organisation's audit log
+ALTER TABLE public.organization_members
+DROP CONSTRAINT organization_members_role_check,
+ADD CONSTRAINT organization_members_role_check CHECK (role IN ('member', 'librarian', 'reviewer'));
+
+CREATE OR REPLACE FUNCTION public.is_organization_reviewer(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id AND user_id = auth.uid() AND role = 'reviewer'
+  );
+$$;
+
+-- No foreign keys on user_id and organization_id: entries must outlive the
+-- accounts and organisations they refer to
+CREATE TABLE public.answer_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  -- The user's organisation when the question was asked, NULL without one
+  organization_id UUID,
+  conversation_id UUID,
+  query TEXT NOT NULL,
+  flight_phase TEXT,
+  -- Chunks the answer was generated from, in citation-marker order:
+  -- [{ id, document_id, document_title, page_number, similarity, keyword_rank, retrieval_score, rerank_score }]
+  retrieved_chunks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  answer TEXT NOT NULL,
+  citations INTEGER[] NOT NULL DEFAULT '{}',
+  confidence TEXT CHECK (confidence IN ('high', 'medium', 'low')),
+  outcome TEXT NOT NULL CHECK (outcome IN ('answered', 'not_found', 'stopped', 'failed')),
+  provider TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_answer_audit_log_organization_id_created_at ON public.answer_audit_log(organization_id, created_at DESC);
+CREATE INDEX idx_answer_audit_log_user_id_created_at ON public.answer_audit_log(user_id, created_at DESC);
+
+-- Append-only, whoever the caller is (including the service role)
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'answer_audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_answer_audit_log_changes
+BEFORE UPDATE OR DELETE ON public.answer_audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_answer_audit_log_truncate
+BEFORE TRUNCATE ON public.answer_audit_log
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.answer_audit_log FROM anon, authenticated;
+
+ALTER TABLE public.answer_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reviewers can view their organization's audit log"
+ON public.answer_audit_log
+FOR SELECT
+USING (organization_id IS NOT NULL AND public.is_organization_reviewer(organization_id));
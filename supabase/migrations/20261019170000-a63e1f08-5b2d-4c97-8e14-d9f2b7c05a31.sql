@@ -0,0 +1,6 @@
+-- Fingerprint of the chunks a document is being embedded from. process-pdf
+-- resumes from processed_chunks only when the fingerprint of the new run
+-- matches; changed content with the same chunk count starts over instead of
+-- mixing new chunks with stale embeddings.
+ALTER TABLE public.documents
+ADD COLUMN chunks_hash TEXT;
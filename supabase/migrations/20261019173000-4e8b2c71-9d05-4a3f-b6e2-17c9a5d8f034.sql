@@ -0,0 +1,98 @@
+-- manual_id is set by the client on upload. Check it names an existing manual
+-- in the same library (the same organisation, or the same user's personal
+-- documents), so nobody can file an upload as a revision of a manual they do
+-- not own and supersede it for everyone else.
+CREATE OR REPLACE FUNCTION public.validate_document_manual_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  -- A new manual (set_documents_manual_id runs first and fills in the id)
+  IF NEW.manual_id = NEW.id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.manual_id = OLD.manual_id
+    AND NEW.user_id = OLD.user_id
+    AND NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.manual_id = NEW.manual_id AND d.id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Unknown manual %', NEW.manual_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.manual_id = NEW.manual_id
+      AND d.id <> NEW.id
+      AND NOT (
+        CASE WHEN NEW.organization_id IS NOT NULL
+          THEN d.organization_id IS NOT DISTINCT FROM NEW.organization_id
+          ELSE d.organization_id IS NULL AND d.user_id = NEW.user_id
+        END
+      )
+  ) THEN
+    RAISE EXCEPTION 'A revision must be uploaded to the same library as its manual';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after set_documents_manual_id (triggers fire in name order)
+CREATE TRIGGER validate_documents_manual_id
+BEFORE INSERT OR UPDATE OF manual_id, user_id, organization_id ON public.documents
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_document_manual_id();
+
+-- Make a processed revision the current one and supersede the others in the
+-- same library. A revision that finishes ingesting after a newer one has
+-- completed stays superseded rather than replacing it.
+CREATE OR REPLACE FUNCTION public.set_current_revision(p_document_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_document public.documents%ROWTYPE;
+BEGIN
+  SELECT * INTO v_document FROM public.documents WHERE id = p_document_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.documents d
+    WHERE d.manual_id = v_document.manual_id
+      AND d.id <> v_document.id
+      AND d.processing_status = 'completed'
+      AND d.revision_number > v_document.revision_number
+      AND d.organization_id IS NOT DISTINCT FROM v_document.organization_id
+      AND (v_document.organization_id IS NOT NULL OR d.user_id = v_document.user_id)
+  ) THEN
+    UPDATE public.documents
+    SET is_current = false, superseded_at = COALESCE(superseded_at, now())
+    WHERE id = p_document_id;
+    RETURN;
+  END IF;
+
+  UPDATE public.documents
+  SET is_current = false, superseded_at = now()
+  WHERE manual_id = v_document.manual_id
+    AND id <> p_document_id
+    AND is_current
+    AND organization_id IS NOT DISTINCT FROM v_document.organization_id
+    AND (v_document.organization_id IS NOT NULL OR user_id = v_document.user_id);
+
+  UPDATE public.documents
+  SET is_current = true, superseded_at = NULL
+  WHERE id = p_document_id;
+END;
+$$;
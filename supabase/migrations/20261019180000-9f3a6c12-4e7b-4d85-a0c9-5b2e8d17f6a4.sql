@@ -0,0 +1,182 @@
+-- Organisation membership by invitation. Membership used to follow the
+-- free-text airline on the profile, so anyone could join any organisation by
+-- typing its name, and whoever typed a new name first became its librarian.
+-- Now a user creates an organisation (and is its librarian) or joins one by
+-- accepting a librarian's invitation. profiles.airline is plain profile
+-- information again; existing memberships are kept.
+DROP TRIGGER sync_profiles_organization_membership ON public.profiles;
+DROP FUNCTION public.sync_organization_membership();
+
+CREATE TABLE public.organization_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Lower-case; matched against the invitee's confirmed sign-in email
+  email TEXT NOT NULL CHECK (email = lower(btrim(email)) AND email <> ''),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, email)
+);
+
+CREATE INDEX idx_organization_invitations_email ON public.organization_invitations(email);
+
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Invitees see and answer their invitations through the functions below
+CREATE POLICY "Librarians can view their organization's invitations"
+ON public.organization_invitations
+FOR SELECT
+USING (public.is_organization_librarian(organization_id));
+
+CREATE POLICY "Librarians can invite to their organization"
+ON public.organization_invitations
+FOR INSERT
+WITH CHECK (public.is_organization_librarian(organization_id) AND invited_by = auth.uid());
+
+CREATE POLICY "Librarians can withdraw invitations"
+ON public.organization_invitations
+FOR DELETE
+USING (public.is_organization_librarian(organization_id));
+
+-- Invitations addressed to the signed-in user, with the organisation's name
+-- (which invitees cannot read from organizations yet)
+CREATE OR REPLACE FUNCTION public.get_my_organization_invitations()
+RETURNS TABLE (
+  id UUID,
+  organization_id UUID,
+  organization_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT i.id, i.organization_id, o.name, i.created_at
+  FROM public.organization_invitations i
+  JOIN public.organizations o ON o.id = i.organization_id
+  JOIN auth.users u ON u.id = auth.uid()
+  WHERE i.email = lower(u.email)
+    AND u.email_confirmed_at IS NOT NULL
+  ORDER BY i.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(p_invitation_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  SELECT i.organization_id INTO v_organization_id
+  FROM public.organization_invitations i
+  JOIN auth.users u ON u.id = auth.uid()
+  WHERE i.id = p_invitation_id
+    AND i.email = lower(u.email)
+    AND u.email_confirmed_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.organization_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Leave your current organisation before joining another';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_organization_id, auth.uid(), 'member');
+
+  DELETE FROM public.organization_invitations WHERE id = p_invitation_id;
+
+  RETURN v_organization_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_organization_invitation(p_invitation_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = ''
+AS $$
+  DELETE FROM public.organization_invitations i
+  USING auth.users u
+  WHERE i.id = p_invitation_id
+    AND u.id = auth.uid()
+    AND i.email = lower(u.email);
+$$;
+
+-- Starts a new organisation with the caller as its librarian
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_name TEXT := btrim(p_name);
+  v_organization_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF v_name IS NULL OR v_name = '' THEN
+    RAISE EXCEPTION 'Organisation name is required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.organization_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Leave your current organisation before creating another';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.organizations (name, slug)
+    VALUES (v_name, lower(v_name))
+    RETURNING id INTO v_organization_id;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'An organisation named % already exists; ask its librarian for an invitation', v_name;
+  END;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (v_organization_id, auth.uid(), 'librarian');
+
+  RETURN v_organization_id;
+END;
+$$;
+
+-- The last librarian cannot leave while others remain, or nobody could
+-- administer the organisation
+CREATE OR REPLACE FUNCTION public.leave_organization()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_member public.organization_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_member FROM public.organization_members WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Serialise membership changes within the organisation
+  PERFORM 1 FROM public.organizations WHERE id = v_member.organization_id FOR UPDATE;
+
+  IF v_member.role = 'librarian'
+    AND EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE organization_id = v_member.organization_id AND user_id <> auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE organization_id = v_member.organization_id AND user_id <> auth.uid() AND role = 'librarian'
+    ) THEN
+    RAISE EXCEPTION 'Make another member a librarian before leaving';
+  END IF;
+
+  DELETE FROM public.organization_members WHERE id = v_member.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_organization_invitations() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_organization_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_organization_invitation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_organization(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_organization() TO authenticated;
@@ -0,0 +1,69 @@
+-- Librarians could update any column of organization_members directly,
+-- including organization_id and user_id. Role changes and removals now go
+-- through functions that only touch the role or the membership, and refuse
+-- to leave an organisation without a librarian.
+DROP POLICY "Librarians can change member roles" ON public.organization_members;
+
+REVOKE INSERT, UPDATE, DELETE ON public.organization_members FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_organization_member_role(p_user_id UUID, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_member public.organization_members%ROWTYPE;
+BEGIN
+  IF p_role NOT IN ('member', 'librarian', 'reviewer') THEN
+    RAISE EXCEPTION 'Unknown role %', p_role;
+  END IF;
+
+  SELECT * INTO v_member FROM public.organization_members WHERE user_id = p_user_id;
+
+  IF NOT FOUND OR NOT public.is_organization_librarian(v_member.organization_id) THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  -- Serialise membership changes within the organisation
+  PERFORM 1 FROM public.organizations WHERE id = v_member.organization_id FOR UPDATE;
+
+  IF v_member.role = 'librarian' AND p_role <> 'librarian' AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = v_member.organization_id AND user_id <> p_user_id AND role = 'librarian'
+  ) THEN
+    RAISE EXCEPTION 'An organisation needs at least one librarian';
+  END IF;
+
+  UPDATE public.organization_members SET role = p_role WHERE id = v_member.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_organization_member(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_member public.organization_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_member FROM public.organization_members WHERE user_id = p_user_id;
+
+  IF NOT FOUND OR NOT public.is_organization_librarian(v_member.organization_id) THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  PERFORM 1 FROM public.organizations WHERE id = v_member.organization_id FOR UPDATE;
+
+  IF v_member.role = 'librarian' AND NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = v_member.organization_id AND user_id <> p_user_id AND role = 'librarian'
+  ) THEN
+    RAISE EXCEPTION 'An organisation needs at least one librarian';
+  END IF;
+
+  DELETE FROM public.organization_members WHERE id = v_member.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_organization_member_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_organization_member(UUID) TO authenticated;
@@ -0,0 +1,42 @@
+-- Match the query inside conversation titles literally. As an ILIKE pattern,
+-- "%" and "_" typed by the user acted as wildcards, so searching for "%"
+-- matched every conversation.
+CREATE OR REPLACE FUNCTION public.search_conversations(
+  search_query TEXT,
+  match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  snippet TEXT,
+  rank FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('simple', search_query) AS tsq
+  ),
+  matches AS (
+    SELECT DISTINCT ON (cm.conversation_id)
+      cm.conversation_id,
+      cm.content,
+      ts_rank_cd(cm.content_tsv, query.tsq, 32) AS message_rank
+    FROM public.conversation_messages cm, query
+    WHERE cm.content_tsv @@ query.tsq
+    ORDER BY cm.conversation_id, message_rank DESC
+  )
+  SELECT
+    c.id,
+    c.title,
+    c.updated_at,
+    left(m.content, 200) AS snippet,
+    (COALESCE(m.message_rank, 0) + CASE WHEN position(lower(search_query) IN lower(c.title)) > 0 THEN 1 ELSE 0 END)::FLOAT AS rank
+  FROM public.conversations c
+  LEFT JOIN matches m ON m.conversation_id = c.id
+  WHERE m.conversation_id IS NOT NULL
+    OR position(lower(search_query) IN lower(c.title)) > 0
+  ORDER BY rank DESC, c.updated_at DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,93 @@
+-- The audit log took the question, the retrieved chunks and the conversation
+-- from the client's call to answer-question, and a question stopped during
+-- search left no entry at all. search-documents now records each retrieval
+-- itself; answer-question answers only from a recorded retrieval (by id) and
+-- copies it into the audit log entry.
+CREATE TABLE public.answer_retrievals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  organization_id UUID,
+  conversation_id UUID,
+  query TEXT NOT NULL,
+  flight_phase TEXT,
+  -- Same shape as answer_audit_log.retrieved_chunks
+  retrieved_chunks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_answer_retrievals_organization_id_created_at ON public.answer_retrievals(organization_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$;
+
+CREATE TRIGGER prevent_answer_retrievals_changes
+BEFORE UPDATE OR DELETE ON public.answer_retrievals
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_answer_retrievals_truncate
+BEFORE TRUNCATE ON public.answer_retrievals
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.answer_retrievals FROM anon, authenticated;
+
+ALTER TABLE public.answer_retrievals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reviewers can view their organization's retrievals"
+ON public.answer_retrievals
+FOR SELECT
+USING (organization_id IS NOT NULL AND public.is_organization_reviewer(organization_id));
+
+ALTER TABLE public.answer_audit_log
+ADD COLUMN retrieval_id UUID REFERENCES public.answer_retrievals(id);
+
+CREATE INDEX idx_answer_audit_log_retrieval_id ON public.answer_audit_log(retrieval_id);
+
+-- What reviewers read: every answer, plus retrievals that never got one (the
+-- question was stopped during search or before answer-question recorded it)
+CREATE VIEW public.answer_audit_entries
+WITH (security_invoker = true)
+AS
+  SELECT
+    a.id,
+    a.created_at,
+    a.user_id,
+    a.organization_id,
+    a.conversation_id,
+    a.query,
+    a.flight_phase,
+    a.retrieved_chunks,
+    a.answer,
+    a.citations,
+    a.confidence,
+    a.outcome,
+    a.provider
+  FROM public.answer_audit_log a
+  UNION ALL
+  SELECT
+    r.id,
+    r.created_at,
+    r.user_id,
+    r.organization_id,
+    r.conversation_id,
+    r.query,
+    r.flight_phase,
+    r.retrieved_chunks,
+    '' AS answer,
+    '{}'::INTEGER[] AS citations,
+    NULL AS confidence,
+    'unanswered' AS outcome,
+    NULL AS provider
+  FROM public.answer_retrievals r
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.answer_audit_log a WHERE a.retrieval_id = r.id
+  );
+
+GRANT SELECT ON public.answer_audit_entries TO authenticated;
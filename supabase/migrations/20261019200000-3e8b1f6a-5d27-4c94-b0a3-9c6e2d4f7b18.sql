@@ -0,0 +1,84 @@
+-- Keyword search OR-ed every word of the question under the 'simple'
+-- configuration, stopwords included, so any question containing "the" or
+-- "what" matched almost every chunk. English stopwords are now left out of
+-- the query (content_tsv stays 'simple' so abbreviations and numbers are
+-- still matched unstemmed), and a chunk must reach min_rank: with
+-- ts_rank_cd normalised to 0..1, a single occurrence of a single term scores
+-- just under 0.1.
+DROP FUNCTION IF EXISTS public.search_keyword_chunks(TEXT, INTEGER, TEXT[], BOOLEAN, UUID[]);
+
+CREATE FUNCTION public.search_keyword_chunks(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 5,
+  document_types TEXT[] DEFAULT NULL,
+  include_superseded BOOLEAN DEFAULT false,
+  document_ids UUID[] DEFAULT NULL,
+  min_rank FLOAT DEFAULT 0.1
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  content TEXT,
+  page_number INTEGER,
+  page_label TEXT,
+  section_title TEXT,
+  section_path TEXT[],
+  chunk_type TEXT,
+  flight_phases TEXT[],
+  document_title TEXT,
+  document_type TEXT,
+  file_name TEXT,
+  revision_number INTEGER,
+  effective_date DATE,
+  is_current BOOLEAN,
+  organization_id UUID,
+  organization_name TEXT,
+  keyword_rank FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', query_text))) AS lexeme
+    -- English stopwords have an empty 'english' vector
+    WHERE to_tsvector('english', lexeme) <> ''::tsvector
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.page_number,
+    dc.page_label,
+    dc.section_title,
+    dc.section_path,
+    dc.chunk_type,
+    dc.flight_phases,
+    d.title AS document_title,
+    d.document_type,
+    d.file_name,
+    d.revision_number,
+    d.effective_date,
+    d.is_current,
+    d.organization_id,
+    o.name AS organization_name,
+    ts_rank_cd(dc.content_tsv, query.tsq, 32) AS keyword_rank
+  FROM public.document_chunks dc
+  JOIN public.documents d ON d.id = dc.document_id
+  LEFT JOIN public.organizations o ON o.id = d.organization_id
+  CROSS JOIN query
+  WHERE query.tsq IS NOT NULL
+    AND d.processing_status = 'completed'
+    AND d.retired_at IS NULL
+    AND (include_superseded OR d.is_current OR d.id = ANY(document_ids))
+    AND (document_ids IS NULL OR cardinality(document_ids) = 0 OR d.id = ANY(document_ids))
+    AND (document_types IS NULL OR cardinality(document_types) = 0 OR d.document_type = ANY(document_types))
+    AND dc.content_tsv @@ query.tsq
+    AND ts_rank_cd(dc.content_tsv, query.tsq, 32) >= min_rank
+  ORDER BY keyword_rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_keyword_chunks(TEXT, INTEGER, TEXT[], BOOLEAN, UUID[], FLOAT) TO authenticated;
@@ -0,0 +1,44 @@
+-- The organisations migration enrolled every existing profile in the
+-- organisation named by its free-text airline and made the earliest profile
+-- its librarian, so whoever had typed an airline name first administered
+-- that airline's shared library. This departs from the original design of
+-- membership "backed by the airline field on profiles": the backfilled
+-- organisations are kept (so their names cannot be claimed through
+-- create_organization), but the memberships and librarian roles derived from
+-- the airline field are removed. An operator who has vetted the requester
+-- assigns each organisation's first librarian with
+-- assign_organization_librarian, using the service role; everyone else joins
+-- by invitation.
+DELETE FROM public.organization_members m
+USING public.profiles p, public.organizations o
+WHERE p.user_id = m.user_id
+  AND o.id = m.organization_id
+  AND o.slug = lower(btrim(p.airline));
+
+CREATE OR REPLACE FUNCTION public.assign_organization_librarian(p_organization_id UUID, p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  PERFORM 1 FROM public.organizations WHERE id = p_organization_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Organisation not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE user_id = p_user_id AND organization_id <> p_organization_id
+  ) THEN
+    RAISE EXCEPTION 'User belongs to another organisation';
+  END IF;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (p_organization_id, p_user_id, 'librarian')
+  ON CONFLICT (user_id) DO UPDATE SET role = 'librarian';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_organization_librarian(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.assign_organization_librarian(UUID, UUID) TO service_role;